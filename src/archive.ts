@@ -0,0 +1,210 @@
+import { Run, escapeHtml, runsToHtml, runsToPlain } from "./mrkdwn";
+import { Translation } from "./translate";
+
+/**
+ * "Export thread as…" outputs that keep more than the PDF does.
+ *
+ * - HTML: one self-contained page, photos inlined as data: URIs, so it opens
+ *   offline and can be mailed as a single attachment. Photos past
+ *   ARCHIVE_MAX_MB of page data are left out, as in the ZIP.
+ * - ZIP: the untouched originals, named "<entry>-<photo>_<caption>.<ext>",
+ *   plus manifest.json / manifest.csv describing every file.
+ */
+
+export type ArchiveFormat = "html" | "zip";
+
+export type ArchiveEntry = {
+  // 1-based entry number, as in the PDF
+  num: number;
+  user: string;
+  author: string;
+  ts: string;
+  // "Oct 19, 2026, 2:14 PM PDT", in the report timezone
+  stamp: string;
+  captionRuns: Run[];
+  translations: Translation[];
+};
+
+export type HtmlPhoto = { jpg: Buffer | null; name: string; error?: string };
+
+export type HtmlDocument = {
+  title: string;
+  // "#channel · Category · exported Oct 19, 2026"
+  subtitle: string;
+  showByline: boolean;
+  entries: Array<ArchiveEntry & { photos: HtmlPhoto[]; attachments: Array<{ name: string; permalink: string }> }>;
+};
+
+const STYLE = `
+body{font:15px/1.45 -apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;color:#1d1c1d;max-width:960px;margin:24px auto;padding:0 16px}
+h1{font-size:22px;margin:0 0 4px}
+.sub{color:#616061;margin:0 0 24px}
+.entry{border-top:1px solid #ddd;padding:16px 0}
+.num{font-weight:700;margin-right:6px}
+.by{color:#616061;font-size:13px;margin:4px 0}
+.tr{color:#454245;font-size:14px;margin:4px 0}
+.photos{display:grid;grid-template-columns:repeat(auto-fill,minmax(280px,1fr));gap:8px;margin-top:8px}
+.photos img{width:100%;height:auto;border-radius:4px}
+.missing{color:#a0a0a0;font-style:italic}
+pre,code{background:#f6f6f6;border-radius:3px;padding:1px 4px}
+@media print{.entry{break-inside:avoid}}
+`;
+
+export function buildHtml(doc: HtmlDocument): string {
+  const out: string[] = [
+    "<!DOCTYPE html>",
+    '<html lang="en"><head><meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(doc.title)}</title>`,
+    `<style>${STYLE}</style>`,
+    "</head><body>",
+    `<h1>${escapeHtml(doc.title)}</h1>`,
+    `<p class="sub">${escapeHtml(doc.subtitle)}</p>`
+  ];
+
+  for (const e of doc.entries) {
+    out.push(`<section class="entry" id="entry-${e.num}">`);
+    out.push(`<div><span class="num">${e.num}.</span>${runsToHtml(e.captionRuns)}</div>`);
+    if (doc.showByline) {
+      out.push(`<div class="by">${escapeHtml([e.author, e.stamp].filter(Boolean).join(" · "))}</div>`);
+    }
+    for (const t of e.translations) {
+      out.push(`<div class="tr"><strong>${escapeHtml(t.label)}:</strong> ${escapeHtml(t.text)}</div>`);
+    }
+    if (e.photos.length) {
+      out.push('<div class="photos">');
+      for (const p of e.photos) {
+        out.push(
+          p.jpg
+            ? `<img alt="${escapeHtml(p.name)}" src="data:image/jpeg;base64,${p.jpg.toString("base64")}">`
+            : `<div class="missing">${escapeHtml(p.error || "[photo unavailable]")} ${escapeHtml(p.name)}</div>`
+        );
+      }
+      out.push("</div>");
+    }
+    for (const a of e.attachments) {
+      out.push(`<div>📎 <a href="${escapeHtml(a.permalink)}" target="_blank" rel="noopener">${escapeHtml(a.name)}</a></div>`);
+    }
+    out.push("</section>");
+  }
+
+  out.push("</body></html>");
+  return out.join("\n");
+}
+
+// ---------- ZIP of originals ----------
+
+export type ManifestRow = {
+  // name inside the ZIP, "" when the original couldn't be downloaded
+  file: string;
+  entry: number;
+  photo: number;
+  caption: string;
+  author: string;
+  user_id: string;
+  // ISO 8601, UTC
+  timestamp: string;
+  local_time: string;
+  translations: Record<string, string>;
+  permalink: string;
+  original_name: string;
+  bytes: number;
+  error?: string;
+};
+
+function captionSlug(caption: string): string {
+  const slug = caption
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40)
+    .replace(/-+$/, "");
+  return slug || "photo";
+}
+
+// "01-02_backflow-test.jpg": entry 1, second photo of that entry.
+export function archiveFileName(entry: number, photo: number, caption: string, f: any): string {
+  const fromName = ((f?.name || "") as string).match(/\.([A-Za-z0-9]{1,5})$/)?.[1];
+  const ext = (fromName || f?.filetype || "jpg").toLowerCase();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(entry)}-${pad(photo)}_${captionSlug(caption)}.${ext}`;
+}
+
+export function manifestRow(
+  e: ArchiveEntry,
+  photo: number,
+  f: any,
+  file: string,
+  bytes: number,
+  error?: string
+): ManifestRow {
+  const translations: Record<string, string> = {};
+  for (const t of e.translations) translations[t.label] = t.text;
+  return {
+    file,
+    entry: e.num,
+    photo,
+    caption: runsToPlain(e.captionRuns),
+    author: e.author,
+    user_id: e.user,
+    timestamp: new Date(Number(e.ts) * 1000).toISOString(),
+    local_time: e.stamp,
+    translations,
+    permalink: (f?.permalink || "") as string,
+    original_name: (f?.name || "") as string,
+    bytes,
+    ...(error ? { error } : {})
+  };
+}
+
+// Text starting with = + - @ (or a tab/CR) would run as a formula in a
+// spreadsheet, so it gets a leading ' (OWASP CSV injection advice).
+function csvCell(v: string | number): string {
+  const s = typeof v === "string" && /^[=+\-@\t\r]/.test(v) ? `'${v}` : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// One row per file; one column per translation language.
+export function manifestCsv(rows: ManifestRow[]): string {
+  const labels = Array.from(new Set(rows.flatMap((r) => Object.keys(r.translations))));
+  const header = [
+    "file",
+    "entry",
+    "photo",
+    "caption",
+    ...labels.map((l) => `caption (${l})`),
+    "author",
+    "user_id",
+    "timestamp",
+    "local_time",
+    "permalink",
+    "original_name",
+    "bytes",
+    "error"
+  ];
+  const lines = [header.map(csvCell).join(",")];
+  for (const r of rows) {
+    lines.push(
+      [
+        r.file,
+        r.entry,
+        r.photo,
+        r.caption,
+        ...labels.map((l) => r.translations[l] || ""),
+        r.author,
+        r.user_id,
+        r.timestamp,
+        r.local_time,
+        r.permalink,
+        r.original_name,
+        r.bytes,
+        r.error || ""
+      ]
+        .map(csvCell)
+        .join(",")
+    );
+  }
+  // BOM so Excel opens accented captions as UTF-8
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
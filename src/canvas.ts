@@ -0,0 +1,68 @@
+import { openStore } from "./store";
+import { ExportFilters } from "./filters";
+
+/**
+ * Remembers which Canvas was built from which thread so a second
+ * "Collate thread to Canvas" run appends new photos instead of making a copy.
+ */
+
+export type CanvasRecord = {
+  canvas_id: string;
+  title: string;
+  // template category the Canvas was built with
+  category?: string;
+  // ts of the newest message already in the Canvas (with filters: the newest
+  // that passed them, so updates must use the same filters)
+  last_ts: string;
+  // filters the Canvas was made with; none for an unfiltered Canvas
+  filters?: ExportFilters;
+  // how many numbered groups the Canvas already holds
+  count: number;
+  updated_at: string;
+};
+
+const canvases = openStore<CanvasRecord>("canvases");
+
+function key(channel_id: string, thread_ts: string): string {
+  return `${channel_id}:${thread_ts}`;
+}
+
+export function getCanvasRecord(channel_id: string, thread_ts: string): CanvasRecord | undefined {
+  return canvases.get(key(channel_id, thread_ts));
+}
+
+export function saveCanvasRecord(channel_id: string, thread_ts: string, rec: CanvasRecord): void {
+  canvases.set(key(channel_id, thread_ts), rec);
+}
+
+export function forgetCanvasRecord(channel_id: string, thread_ts: string): void {
+  canvases.delete(key(channel_id, thread_ts));
+}
+
+// Slack ts strings compare correctly as numbers ("1712345678.000200").
+export function tsAfter(a: string, b: string): boolean {
+  return Number(a) > Number(b);
+}
+
+// Append markdown to the end of an existing Canvas.
+// Returns the Slack error code on failure (e.g. "canvas_not_found"), or null.
+export async function appendToCanvas(
+  client: any,
+  canvas_id: string,
+  markdown: string
+): Promise<string | null> {
+  try {
+    const res = (await client.apiCall("canvases.edit", {
+      canvas_id,
+      changes: [
+        {
+          operation: "insert_at_end",
+          document_content: { type: "markdown", markdown }
+        }
+      ]
+    })) as any;
+    return res?.ok ? null : res?.error || "unknown_error";
+  } catch (e: any) {
+    return e?.data?.error || e?.message || "unknown_error";
+  }
+}
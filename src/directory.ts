@@ -0,0 +1,126 @@
+import { callWithBackoff } from "./thread";
+import { isValidTimezone } from "./zonedTime";
+
+/**
+ * Cached lookups for user and channel names (and users' timezones), plus
+ * the channel access check behind /collate.
+ *
+ * Threads mention the same few people over and over, so each ID is looked up
+ * once per process (users.info / conversations.info) and kept for an hour.
+ */
+
+const TTL_MS = 60 * 60 * 1000;
+
+type Entry<T> = { value: T; at: number };
+
+// whole users.info objects, so names and timezones share one lookup
+const users = new Map<string, Entry<any>>();
+const channels = new Map<string, Entry<string>>();
+
+async function cached<T>(
+  cache: Map<string, Entry<T>>,
+  id: string,
+  load: () => Promise<T | null>
+): Promise<T | null> {
+  const hit = cache.get(id);
+  if (hit && Date.now() - hit.at < TTL_MS) return hit.value;
+  const value = await load();
+  // failed lookups aren't cached, so the next export tries again
+  if (value === null) return null;
+  cache.set(id, { value, at: Date.now() });
+  return value;
+}
+
+async function userInfo(client: any, userId: string): Promise<any | null> {
+  return cached(users, userId, async () => {
+    try {
+      const res = (await callWithBackoff(() => client.users.info({ user: userId }))) as any;
+      return res?.user || null;
+    } catch (e: any) {
+      console.error("users.info error:", userId, e?.data?.error || e?.message || e);
+      return null;
+    }
+  });
+}
+
+// Display name for a user ID; falls back to the raw ID if Slack won't say.
+export async function userDisplayName(client: any, userId: string): Promise<string> {
+  if (!userId) return "";
+  const u = await userInfo(client, userId);
+  return (
+    u?.profile?.display_name?.trim() ||
+    u?.profile?.real_name?.trim() ||
+    u?.real_name?.trim() ||
+    u?.name ||
+    userId
+  );
+}
+
+// The user's IANA timezone from their Slack profile, else `fallback`.
+export async function userTimezone(client: any, userId: string, fallback: string): Promise<string> {
+  if (!userId) return fallback;
+  const tz = (await userInfo(client, userId))?.tz || "";
+  return isValidTimezone(tz) ? tz : fallback;
+}
+
+// Workspace admin or owner, per their Slack profile; false if Slack won't say.
+export async function isWorkspaceAdmin(client: any, userId: string): Promise<boolean> {
+  if (!userId) return false;
+  const u = await userInfo(client, userId);
+  return !!(u?.is_admin || u?.is_owner || u?.is_primary_owner);
+}
+
+// The timezone from an already cached profile, else `fallback`. No API call:
+// for view submissions, which must be acknowledged within 3 seconds.
+export function cachedUserTimezone(userId: string, fallback: string): string {
+  const tz = users.get(userId)?.value?.tz || "";
+  return isValidTimezone(tz) ? tz : fallback;
+}
+
+// Channel name (without the #); falls back to the raw ID.
+export async function channelName(client: any, channelId: string): Promise<string> {
+  if (!channelId) return "";
+  const name = await cached(channels, channelId, async () => {
+    try {
+      const res = (await callWithBackoff(() =>
+        client.conversations.info({ channel: channelId })
+      )) as any;
+      return res?.channel?.name || channelId;
+    } catch (e: any) {
+      console.error("conversations.info error:", channelId, e?.data?.error || e?.message || e);
+      return null;
+    }
+  });
+  return name ?? channelId;
+}
+
+// Can this user read the channel? Public channels are open to every full
+// member; private ones (and DMs) only to their members, and so is every
+// channel for guests (single- and multi-channel). Not cached: membership changes.
+export async function userCanSeeChannel(client: any, channelId: string, userId: string): Promise<boolean> {
+  try {
+    const info = (await callWithBackoff(() => client.conversations.info({ channel: channelId }))) as any;
+    const ch = info?.channel;
+    if (!ch) return false;
+    if (ch.is_im) return ch.user === userId;
+    if (!ch.is_private && !ch.is_mpim) {
+      // a profile we couldn't load is treated as a guest's
+      const u = await userInfo(client, userId);
+      if (u && !u.is_restricted && !u.is_ultra_restricted) return true;
+    }
+
+    let cursor: string | undefined;
+    do {
+      const page = (await callWithBackoff(() =>
+        client.conversations.members({ channel: channelId, limit: 1000, cursor })
+      )) as any;
+      if ((page?.members || []).includes(userId)) return true;
+      cursor = page?.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+    return false;
+  } catch (e: any) {
+    // channel_not_found also means the bot can't see it, so nothing to export
+    console.error("channel access check error:", channelId, e?.data?.error || e?.message || e);
+    return false;
+  }
+}
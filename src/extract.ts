@@ -0,0 +1,189 @@
+import { ExportFilters, passesFilters } from "./filters";
+
+/**
+ * Thread messages → export groups, one set of rules for every output.
+ *
+ * The Canvas, PDF and HTML/ZIP exports all read the thread through
+ * extractGroups(), so the same thread with the same rules and filters gives
+ * the same entries everywhere. It is synchronous and only looks at the
+ * conversations.replies payload, so recorded threads can be replayed through it.
+ *
+ * Rules (see extractRules()):
+ * - includeRoot: the root message becomes entry 1 (otherwise it's only the title)
+ * - includeBots: posts from bots and integrations (our own are always skipped)
+ * - includeTextOnly: replies without files become caption-only entries
+ * - mergePhotos: back-to-back photo posts by one person within mergeWindowSec
+ *   become one entry (phones often post a burst of photos as separate messages)
+ *
+ * Every output starts from the same defaults, so a Canvas and an export of
+ * one thread list the same entries. The root and bot posts stay in (Canvases
+ * always had them), and so do text-only replies (exports always had them):
+ *
+ *   root  bots  text-only  merge photos
+ *   yes   yes   yes        yes
+ *
+ * Optional ENV (applies to every output):
+ * - EXTRACT_INCLUDE_ROOT=0|1
+ * - EXTRACT_INCLUDE_BOTS=0|1
+ * - EXTRACT_INCLUDE_TEXT_ONLY=0|1
+ * - EXTRACT_MERGE_PHOTOS=0|1
+ * - EXTRACT_MERGE_WINDOW_MIN=10
+ */
+
+export type ExtractTarget = "canvas" | "export";
+
+export type ExtractRules = {
+  includeRoot: boolean;
+  includeBots: boolean;
+  includeTextOnly: boolean;
+  mergePhotos: boolean;
+  mergeWindowSec: number;
+};
+
+export type ExtractOptions = {
+  root_ts: string;
+  // messages never to include (our own progress message)
+  skipTs?: string[];
+  // our bot's ID, so our status posts stay out even with includeBots
+  selfBotId?: string;
+  // only messages after this ts (Canvas updates)
+  afterTs?: string;
+  filters?: ExportFilters;
+};
+
+export type ThreadGroup = {
+  // first and last message merged into this group
+  ts: string;
+  lastTs: string;
+  // "" for bot posts, which carry botName instead
+  user: string;
+  botName: string;
+  // raw Slack mrkdwn
+  caption: string;
+  images: any[];
+  videos: any[];
+  pdfs: any[];
+  // anything else; linked, not embedded
+  others: any[];
+};
+
+const DEFAULT_MERGE_WINDOW_MIN = 10;
+
+const DEFAULTS: Omit<ExtractRules, "mergeWindowSec"> = {
+  includeRoot: true,
+  includeBots: true,
+  includeTextOnly: true,
+  mergePhotos: true
+};
+
+function flag(name: string, fallback: boolean): boolean {
+  const v = (process.env[name] || "").trim();
+  if (!v) return fallback;
+  return v === "1" || v.toLowerCase() === "true";
+}
+
+// `target` names the caller; every target gets the same rules.
+export function extractRules(target: ExtractTarget, overrides: Partial<ExtractRules> = {}): ExtractRules {
+  const minutes = Number(process.env.EXTRACT_MERGE_WINDOW_MIN);
+  return {
+    includeRoot: flag("EXTRACT_INCLUDE_ROOT", DEFAULTS.includeRoot),
+    includeBots: flag("EXTRACT_INCLUDE_BOTS", DEFAULTS.includeBots),
+    includeTextOnly: flag("EXTRACT_INCLUDE_TEXT_ONLY", DEFAULTS.includeTextOnly),
+    mergePhotos: flag("EXTRACT_MERGE_PHOTOS", DEFAULTS.mergePhotos),
+    mergeWindowSec: (Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_MERGE_WINDOW_MIN) * 60,
+    ...overrides
+  };
+}
+
+export function isPdfFile(f: any): boolean {
+  return f?.mimetype === "application/pdf" || f?.filetype === "pdf";
+}
+
+// Titles Slack or the phone made up ("IMG_1234.JPG", "Image from iOS") say
+// nothing about the photo, so they don't count as a caption.
+function meaningfulTitle(f: any): string {
+  const title = (f?.title || "").toString().trim();
+  if (!title) return "";
+  if (title === f?.name) return "";
+  if (/^(image|photo|video) from (ios|android)$/i.test(title)) return "";
+  if (/^(img|dsc|pxl|image|photo|screenshot)[\w\s.-]*\.(jpe?g|png|heic|heif|gif|webp|mov|mp4)$/i.test(title)) return "";
+  return title;
+}
+
+// Caption for a message: its text, else the share comment, else a real file title.
+export function captionOf(m: any): string {
+  const files = (m?.files as any[]) || [];
+  return (
+    (m?.text || "").toString().trim() ||
+    (files[0]?.initial_comment?.comment || "").toString().trim() ||
+    meaningfulTitle(files[0])
+  );
+}
+
+function isBotPost(m: any): boolean {
+  return !!(m?.bot_id || m?.subtype === "bot_message");
+}
+
+// Sort a message's files by how the exports show them; deleted files are dropped.
+function sortFiles(m: any): Pick<ThreadGroup, "images" | "videos" | "pdfs" | "others"> {
+  const out = { images: [] as any[], videos: [] as any[], pdfs: [] as any[], others: [] as any[] };
+  for (const f of (m?.files as any[]) || []) {
+    if (!f?.id || f.mode === "tombstone" || f.mode === "hidden_by_limit") continue;
+    const mime = (f.mimetype || "") as string;
+    if (/^image\//.test(mime)) out.images.push(f);
+    else if (/^video\//.test(mime)) out.videos.push(f);
+    else if (isPdfFile(f)) out.pdfs.push(f);
+    else out.others.push(f);
+  }
+  return out;
+}
+
+export function extractGroups(messages: any[], rules: ExtractRules, opts: ExtractOptions): ThreadGroup[] {
+  const groups: ThreadGroup[] = [];
+  const skip = new Set(opts.skipTs || []);
+
+  for (const m of messages) {
+    const ts = (m?.ts || "") as string;
+    if (!ts || skip.has(ts)) continue;
+    if (ts === opts.root_ts && !rules.includeRoot) continue;
+    if (opts.afterTs && !(Number(ts) > Number(opts.afterTs))) continue;
+    if (isBotPost(m)) {
+      if (!rules.includeBots) continue;
+      if (opts.selfBotId && m.bot_id === opts.selfBotId) continue;
+    }
+    // joins, topic changes and the like
+    if (m.subtype && !["file_share", "bot_message", "thread_broadcast", "me_message"].includes(m.subtype)) continue;
+    if (!passesFilters(m, opts.filters)) continue;
+
+    const files = sortFiles(m);
+    const caption = captionOf(m);
+    const fileCount = files.images.length + files.videos.length + files.pdfs.length + files.others.length;
+    if (!fileCount && (!caption || !rules.includeTextOnly)) continue;
+
+    const user = (m.user || "") as string;
+    const prev = groups[groups.length - 1];
+    const mergeable =
+      rules.mergePhotos &&
+      prev &&
+      files.images.length > 0 &&
+      prev.images.length > 0 &&
+      !!user &&
+      prev.user === user &&
+      Number(ts) - Number(prev.lastTs) <= rules.mergeWindowSec &&
+      // a captioned photo starts a new entry unless the burst had no caption yet
+      (!caption || !prev.caption);
+    if (mergeable) {
+      prev.lastTs = ts;
+      if (caption) prev.caption = caption;
+      prev.images.push(...files.images);
+      prev.videos.push(...files.videos);
+      prev.pdfs.push(...files.pdfs);
+      prev.others.push(...files.others);
+      continue;
+    }
+
+    const botName = user ? "" : ((m.username || m.bot_profile?.name || "") as string);
+    groups.push({ ts, lastTs: ts, user, botName, caption, ...files });
+  }
+  return groups;
+}
@@ -0,0 +1,94 @@
+import fetch from "node-fetch";
+import { callWithBackoff } from "./thread";
+
+/**
+ * Slack file metadata and downloads.
+ *
+ * conversations.replies already carries a full file object for every
+ * attachment, so those are cached as the thread is read and files.info is
+ * only called for files the replies didn't describe (or described without
+ * download URLs, e.g. Slack Connect files marked "check_file_info").
+ * Concurrent lookups of the same file share one request.
+ */
+
+const TTL_MS = 60 * 60 * 1000;
+
+type Entry = { file: any; at: number };
+
+const files = new Map<string, Entry>();
+const inflight = new Map<string, Promise<any | null>>();
+
+function usable(f: any): boolean {
+  return !!(f?.id && (f.url_private_download || f.url_private) && f.file_access !== "check_file_info");
+}
+
+// Remember the file objects attached to these messages.
+export function cacheFileObjects(messages: any[]): void {
+  const now = Date.now();
+  for (const m of messages) {
+    for (const f of (m?.files as any[]) || []) {
+      if (usable(f)) files.set(f.id, { file: f, at: now });
+    }
+  }
+}
+
+// File object for an ID: from the cache, else one files.info call.
+export async function fileInfo(client: any, fileId: string): Promise<any | null> {
+  const hit = files.get(fileId);
+  if (hit && Date.now() - hit.at < TTL_MS) return hit.file;
+
+  const pending = inflight.get(fileId);
+  if (pending) return pending;
+
+  const load = (async () => {
+    try {
+      const res = (await callWithBackoff(() => client.apiCall("files.info", { file: fileId }))) as any;
+      const f = res?.file || null;
+      // failed lookups aren't cached, so the next export tries again
+      if (f) files.set(fileId, { file: f, at: Date.now() });
+      return f;
+    } catch (e: any) {
+      console.error("files.info error:", fileId, e?.data?.error || e?.message || e);
+      return null;
+    } finally {
+      inflight.delete(fileId);
+    }
+  })();
+  inflight.set(fileId, load);
+  return load;
+}
+
+export async function fetchFilePermalink(client: any, fileId: string): Promise<string | null> {
+  return (await fileInfo(client, fileId))?.permalink || null;
+}
+
+export async function downloadPrivateUrl(botToken: string, url: string): Promise<Buffer | null> {
+  try {
+    const res = await fetch(url, { headers: { Authorization: `Bearer ${botToken}` } } as any);
+    if (!res.ok) return null;
+    return Buffer.from(await res.arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+export async function downloadOriginal(client: any, botToken: string, fileId: string): Promise<Buffer | null> {
+  const f = await fileInfo(client, fileId);
+  const url: string | undefined = f?.url_private_download || f?.url_private;
+  return url ? downloadPrivateUrl(botToken, url) : null;
+}
+
+// Slack's own rendered preview, for originals we can't decode (HEIC on Render).
+export async function downloadSlackPreview(client: any, botToken: string, fileId: string): Promise<Buffer | null> {
+  const f = (await fileInfo(client, fileId)) || {};
+  const url: string | undefined =
+    f.thumb_2048 ||
+    f.thumb_1920 ||
+    f.thumb_1600 ||
+    f.thumb_1024 ||
+    f.thumb_960 ||
+    f.thumb_720 ||
+    f.thumb_480 ||
+    f.thumb_360;
+  return url ? downloadPrivateUrl(botToken, url) : null;
+}
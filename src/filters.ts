@@ -0,0 +1,155 @@
+/**
+ * Which replies go into an export: by reaction, by person, by date/time and
+ * "photos only". Chosen in the export modals and checked message by message
+ * while replies are grouped, so the Canvas, PDF and HTML/ZIP outputs of the
+ * same thread with the same filters contain the same messages.
+ */
+
+export type ExportFilters = {
+  // reaction names without colons or skin tone; a message needs any one of them
+  reactions: string[];
+  // Slack user IDs; empty = everyone
+  users: string[];
+  // epoch seconds, inclusive; 0 = open-ended
+  from: number;
+  to: number;
+  imagesOnly: boolean;
+};
+
+export type FilterResult = ExportFilters | { errors: Record<string, string> };
+
+// ":white_check_mark:, camera" -> ["white_check_mark", "camera"]
+function parseReactions(text: string): string[] {
+  return Array.from(
+    new Set(
+      (text || "")
+        .split(/[\s,]+/)
+        .map((r) => baseReaction(r.replace(/^:+|:+$/g, "").toLowerCase()))
+        .filter(Boolean)
+    )
+  );
+}
+
+// "thumbsup::skin-tone-2" -> "thumbsup"
+function baseReaction(name: string): string {
+  return (name || "").split("::")[0];
+}
+
+export function hasFilters(f?: ExportFilters): boolean {
+  return !!f && (f.reactions.length > 0 || f.users.length > 0 || f.from > 0 || f.to > 0 || f.imagesOnly);
+}
+
+function isImage(f: any): boolean {
+  return /^image\//.test(f?.mimetype || "");
+}
+
+// Does this message pass the filters? No filters lets everything through.
+export function passesFilters(m: any, f?: ExportFilters): boolean {
+  if (!f) return true;
+  if (f.reactions.length) {
+    const names = ((m?.reactions as any[]) || []).map((r) => baseReaction(r?.name));
+    if (!names.some((n) => f.reactions.includes(n))) return false;
+  }
+  if (f.users.length && !f.users.includes(m?.user)) return false;
+  const t = Number(m?.ts);
+  if (f.from && t < f.from) return false;
+  if (f.to && t > f.to) return false;
+  if (f.imagesOnly && !((m?.files as any[]) || []).some(isImage)) return false;
+  return true;
+}
+
+// Modal input blocks; every one optional, so leaving them alone exports everything.
+export function filterBlocks(): any[] {
+  return [
+    { type: "header", text: { type: "plain_text", text: "Filters" } },
+    {
+      type: "input",
+      block_id: "filter_reaction_block",
+      optional: true,
+      label: { type: "plain_text", text: "Only messages with a reaction" },
+      hint: { type: "plain_text", text: "One or more, e.g. :white_check_mark: :camera:" },
+      element: {
+        type: "plain_text_input",
+        action_id: "filter_reaction_action",
+        placeholder: { type: "plain_text", text: ":white_check_mark:" }
+      }
+    },
+    {
+      type: "input",
+      block_id: "filter_users_block",
+      optional: true,
+      label: { type: "plain_text", text: "Only messages from" },
+      element: {
+        type: "multi_users_select",
+        action_id: "filter_users_action",
+        placeholder: { type: "plain_text", text: "Everyone" }
+      }
+    },
+    {
+      type: "input",
+      block_id: "filter_from_block",
+      optional: true,
+      label: { type: "plain_text", text: "Posted from" },
+      element: { type: "datetimepicker", action_id: "filter_from_action" }
+    },
+    {
+      type: "input",
+      block_id: "filter_to_block",
+      optional: true,
+      label: { type: "plain_text", text: "Posted until" },
+      element: { type: "datetimepicker", action_id: "filter_to_action" }
+    },
+    {
+      type: "input",
+      block_id: "filter_images_block",
+      optional: true,
+      label: { type: "plain_text", text: "Photos" },
+      element: {
+        type: "checkboxes",
+        action_id: "filter_images_action",
+        options: [{ text: { type: "plain_text", text: "Only messages with photos" }, value: "images" }]
+      }
+    }
+  ];
+}
+
+export function filtersFromState(values: any): FilterResult {
+  const from = Number(values?.filter_from_block?.filter_from_action?.selected_date_time) || 0;
+  const to = Number(values?.filter_to_block?.filter_to_action?.selected_date_time) || 0;
+  if (from && to && to < from) {
+    return { errors: { filter_to_block: "“Posted until” is before “Posted from”." } };
+  }
+  return {
+    reactions: parseReactions(values?.filter_reaction_block?.filter_reaction_action?.value || ""),
+    users: (values?.filter_users_block?.filter_users_action?.selected_users || []) as string[],
+    from,
+    to,
+    imagesOnly: (values?.filter_images_block?.filter_images_action?.selected_options || []).length > 0
+  };
+}
+
+// Same selection? "No filters" and all-empty filters count as the same.
+export function sameFilters(a?: ExportFilters, b?: ExportFilters): boolean {
+  if (!hasFilters(a) || !hasFilters(b)) return !hasFilters(a) && !hasFilters(b);
+  const set = (xs: string[]) => [...xs].sort().join(",");
+  return (
+    set(a!.reactions) === set(b!.reactions) &&
+    set(a!.users) === set(b!.users) &&
+    a!.from === b!.from &&
+    a!.to === b!.to &&
+    a!.imagesOnly === b!.imagesOnly
+  );
+}
+
+// "only :white_check_mark:, from 2 people, Oct 1 – Oct 7, photos only"
+export function describeFilters(f: ExportFilters | undefined, formatTime: (epoch: number) => string): string {
+  if (!f || !hasFilters(f)) return "";
+  const parts: string[] = [];
+  if (f.reactions.length) parts.push(`only ${f.reactions.map((r) => `:${r}:`).join(" or ")}`);
+  if (f.users.length) parts.push(`from ${f.users.map((u) => `<@${u}>`).join(", ")}`);
+  if (f.from && f.to) parts.push(`${formatTime(f.from)} – ${formatTime(f.to)}`);
+  else if (f.from) parts.push(`since ${formatTime(f.from)}`);
+  else if (f.to) parts.push(`until ${formatTime(f.to)}`);
+  if (f.imagesOnly) parts.push("photos only");
+  return parts.join(", ");
+}
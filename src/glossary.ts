@@ -0,0 +1,302 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import fetch from "node-fetch";
+import { openStore } from "./store";
+
+/**
+ * DeepL glossaries for our trade vocabulary (backflow, drip line, sod,
+ * hardscape, valve and controller model names…).
+ *
+ * The terms live in config/glossary.csv: the header row holds language codes,
+ * the first column is the source term and every other column is one target
+ * language. Each target language is synced to its own DeepL glossary, and
+ * every DeepL request into that language passes its glossary_id.
+ *
+ * DeepL glossaries can't be edited in place, so when the CSV changes we create
+ * a fresh glossary and delete the stale one.
+ *
+ * Optional ENV:
+ * - GLOSSARY_PATH=config/glossary.csv
+ * - GLOSSARY_SYNC=0            -> don't sync at startup (use `/collate glossary sync`)
+ * - GLOSSARY_ADMINS=U123,U456  -> who may run `/collate glossary sync` (default: workspace admins)
+ */
+
+export type GlossaryEntries = Array<[string, string]>;
+
+export type LocalGlossary = {
+  source: string;
+  // target language code (lowercase, e.g. "es") -> term pairs
+  targets: Record<string, GlossaryEntries>;
+};
+
+type GlossaryRecord = {
+  glossary_id: string;
+  source_lang: string;
+  // hash of the entries the remote glossary was built from
+  hash: string;
+  entry_count: number;
+  synced_at: string;
+};
+
+export type GlossaryDrift = {
+  lang: string;
+  glossary_id: string;
+  // local terms DeepL doesn't have yet
+  missing: string[];
+  // terms DeepL still has that were removed locally
+  extra: string[];
+  // same source term, different translation
+  changed: Array<{ term: string; local: string; remote: string }>;
+};
+
+const NAME_PREFIX = "slack-collate";
+
+const records = openStore<GlossaryRecord>("glossaries");
+
+function glossaryPath(): string {
+  return path.resolve(process.env.GLOSSARY_PATH?.trim() || "config/glossary.csv");
+}
+
+function deeplConfig(): { key: string; base: string } {
+  return {
+    key: process.env.DEEPL_API_KEY?.trim() || "",
+    base: (process.env.DEEPL_BASE_URL?.trim() || "https://api-free.deepl.com/v2").replace(/\/+$/, "")
+  };
+}
+
+// Glossaries are per language, not per variant: "ES-419" uses the "es" glossary.
+function baseLang(code: string): string {
+  return code.split("-")[0].trim().toLowerCase();
+}
+
+// Minimal CSV: commas, double-quoted fields, "" as an escaped quote.
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += c;
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+export function loadGlossary(): LocalGlossary | null {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(glossaryPath(), "utf8");
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") console.error("glossary read error:", e?.message || e);
+    return null;
+  }
+
+  const [header, ...rows] = parseCsv(raw.replace(/^\uFEFF/, ""));
+  if (!header || header.length < 2) return null;
+
+  const source = baseLang(header[0]);
+  const targets: LocalGlossary["targets"] = {};
+  header.slice(1).forEach((code, col) => {
+    const lang = baseLang(code);
+    if (!lang) return;
+    const seen = new Set<string>();
+    const entries: GlossaryEntries = [];
+    for (const r of rows) {
+      const term = (r[0] || "").trim();
+      const tr = (r[col + 1] || "").trim();
+      // DeepL rejects empty and duplicate source terms
+      if (!term || !tr || seen.has(term)) continue;
+      seen.add(term);
+      entries.push([term, tr]);
+    }
+    if (entries.length) targets[lang] = entries;
+  });
+  return { source, targets };
+}
+
+function entriesHash(entries: GlossaryEntries): string {
+  return crypto.createHash("sha256").update(JSON.stringify(entries)).digest("hex").slice(0, 16);
+}
+
+function toTsv(entries: GlossaryEntries): string {
+  // tabs/newlines would break the TSV; they never belong in a term anyway
+  const clean = (s: string) => s.replace(/[\t\r\n]+/g, " ");
+  return entries.map(([a, b]) => `${clean(a)}\t${clean(b)}`).join("\n");
+}
+
+async function deepl(method: string, pathname: string, body?: URLSearchParams, accept?: string): Promise<any> {
+  const { key, base } = deeplConfig();
+  const resp = await fetch(`${base}${pathname}`, {
+    method,
+    headers: {
+      Authorization: `DeepL-Auth-Key ${key}`,
+      ...(body ? { "Content-Type": "application/x-www-form-urlencoded" } : {}),
+      ...(accept ? { Accept: accept } : {})
+    },
+    ...(body ? { body: body.toString() } : {})
+  } as any);
+  if (!resp.ok) {
+    const text = await resp.text().catch(() => "");
+    throw new Error(`DeepL ${method} ${pathname}: ${resp.status} ${resp.statusText} ${text}`.trim());
+  }
+  if (resp.status === 204) return null;
+  return accept ? await resp.text() : await resp.json();
+}
+
+async function remoteGlossaries(): Promise<any[]> {
+  const data = await deepl("GET", "/glossaries");
+  return (data?.glossaries || []) as any[];
+}
+
+async function remoteEntries(glossary_id: string): Promise<GlossaryEntries> {
+  const tsv = (await deepl("GET", `/glossaries/${glossary_id}/entries`, undefined, "text/tab-separated-values")) as string;
+  return (tsv || "")
+    .split(/\r?\n/)
+    .filter(Boolean)
+    .map((line) => {
+      const [a, ...b] = line.split("\t");
+      return [a, b.join("\t")] as [string, string];
+    });
+}
+
+function glossaryName(source: string, lang: string): string {
+  return `${NAME_PREFIX} ${source}-${lang}`;
+}
+
+// Glossary to pass for a target language, if one is synced.
+// DeepL also needs the glossary's source_lang on the request.
+export function glossaryFor(targetLang: string): { glossaryId: string; sourceLang: string } | undefined {
+  const rec = records.get(baseLang(targetLang));
+  return rec ? { glossaryId: rec.glossary_id, sourceLang: rec.source_lang } : undefined;
+}
+
+// Push config/glossary.csv to DeepL. Unchanged languages are left alone.
+// Returns one line per language for logs and Slack replies.
+export async function syncGlossaries(): Promise<string[]> {
+  const local = loadGlossary();
+  if (!local) return ["No glossary file found."];
+  if (!deeplConfig().key) return ["DEEPL_API_KEY is not set; glossary not synced."];
+
+  const remote = await remoteGlossaries();
+  const report: string[] = [];
+
+  for (const [lang, entries] of Object.entries(local.targets)) {
+    const name = glossaryName(local.source, lang);
+    const hash = entriesHash(entries);
+    const rec = records.get(lang);
+    const ours = remote.filter((g) => g.name === name);
+
+    if (rec && rec.hash === hash && rec.source_lang === local.source && ours.some((g) => g.glossary_id === rec.glossary_id)) {
+      report.push(`${local.source}→${lang}: up to date (${entries.length} terms)`);
+      continue;
+    }
+
+    const params = new URLSearchParams();
+    params.append("name", name);
+    params.append("source_lang", local.source);
+    params.append("target_lang", lang);
+    params.append("entries", toTsv(entries));
+    params.append("entries_format", "tsv");
+    const created = await deepl("POST", "/glossaries", params);
+
+    records.set(lang, {
+      glossary_id: created.glossary_id,
+      source_lang: local.source,
+      hash,
+      entry_count: created.entry_count ?? entries.length,
+      synced_at: new Date().toISOString()
+    });
+
+    // drop the glossaries this one replaces
+    for (const g of ours) {
+      await deepl("DELETE", `/glossaries/${g.glossary_id}`).catch((e: any) =>
+        console.error("glossary delete error:", e?.message || e)
+      );
+    }
+    report.push(`${local.source}→${lang}: synced ${entries.length} terms (${created.glossary_id})`);
+  }
+
+  // languages removed from the CSV stop using their glossary
+  for (const [lang] of records.entries()) {
+    if (!local.targets[lang]) {
+      records.delete(lang);
+      report.push(`${local.source}→${lang}: no longer in the CSV, not used`);
+    }
+  }
+  return report;
+}
+
+// Compare the CSV with what DeepL actually holds, without changing anything.
+export async function glossaryDrift(): Promise<GlossaryDrift[]> {
+  const local = loadGlossary();
+  if (!local) return [];
+
+  const remote = await remoteGlossaries();
+  const drift: GlossaryDrift[] = [];
+
+  for (const [lang, entries] of Object.entries(local.targets)) {
+    const name = glossaryName(local.source, lang);
+    const rec = records.get(lang);
+    const match =
+      remote.find((g) => g.glossary_id === rec?.glossary_id) || remote.find((g) => g.name === name);
+    const theirs = new Map(match ? await remoteEntries(match.glossary_id) : []);
+    const mine = new Map(entries);
+
+    drift.push({
+      lang,
+      glossary_id: match?.glossary_id || "",
+      missing: Array.from(mine.keys()).filter((t) => !theirs.has(t)),
+      extra: Array.from(theirs.keys()).filter((t) => !mine.has(t)),
+      changed: Array.from(mine.entries())
+        .filter(([t, tr]) => theirs.has(t) && theirs.get(t) !== tr)
+        .map(([term, tr]) => ({ term, local: tr, remote: theirs.get(term) as string }))
+    });
+  }
+  return drift;
+}
+
+// Slack mrkdwn summary of glossaryDrift().
+export function formatDrift(drift: GlossaryDrift[]): string {
+  if (!drift.length) return "No glossary file found.";
+  const list = (items: string[]) =>
+    items.slice(0, 15).join(", ") + (items.length > 15 ? ` …and ${items.length - 15} more` : "");
+
+  return drift
+    .map((d) => {
+      if (!d.glossary_id) return `*${d.lang}*: no glossary on DeepL yet — run \`/collate glossary sync\`.`;
+      if (!d.missing.length && !d.extra.length && !d.changed.length) {
+        return `*${d.lang}*: in sync with DeepL (${d.glossary_id}).`;
+      }
+      const lines = [`*${d.lang}*: drifted from DeepL (${d.glossary_id})`];
+      if (d.missing.length) lines.push(`• Missing on DeepL: ${list(d.missing)}`);
+      if (d.extra.length) lines.push(`• Only on DeepL: ${list(d.extra)}`);
+      if (d.changed.length) {
+        lines.push(`• Changed: ${list(d.changed.map((c) => `${c.term} (${c.remote} → ${c.local})`))}`);
+      }
+      lines.push("Run `/collate glossary sync` to push the local file.");
+      return lines.join("\n");
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,91 @@
+import { Reminder } from "./reminders";
+import { formatLocal } from "./zonedTime";
+
+/**
+ * App Home tab: the viewer's pending follow-up reminders, each with a jump
+ * link, due time, who it's waiting on, and Snooze / Reschedule / Cancel.
+ */
+
+// Home views cap out at 100 blocks; each reminder takes four
+const MAX_LISTED = 20;
+
+function reminderBlocks(r: Reminder, tz: string): any[] {
+  const who = r.mentioned.length ? r.mentioned.map((u) => `<@${u}>`).join(", ") : "anyone";
+  const due = formatLocal(new Date(r.post_at * 1000), tz);
+  const jump = r.permalink ? `<${r.permalink}|Jump to message>` : `in <#${r.channel_id}>`;
+  const clears = r.clear_on === "anyone" ? "any reply cancels it" : `cancelled when ${who} replies`;
+  const where = r.delivery === "dm" ? "by DM" : r.delivery === "channel" ? "in the channel" : "in the thread";
+  const nudged = r.nudges.length ? ` · nudging ${r.nudges.map((n) => `<@${n.user}>`).join(", ")}` : "";
+
+  return [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*Follow-up on ${who}* · <#${r.channel_id}>\n⏰ ${due}  ·  ${jump}`
+      }
+    },
+    { type: "context", elements: [{ type: "mrkdwn", text: `_Posts ${where} · ${clears}${nudged}_` }] },
+    {
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          action_id: "reminder_snooze",
+          text: { type: "plain_text", text: "Snooze 1 day" },
+          value: r.scheduled_message_id
+        },
+        {
+          type: "button",
+          action_id: "reminder_reschedule",
+          text: { type: "plain_text", text: "Reschedule" },
+          value: r.scheduled_message_id
+        },
+        {
+          type: "button",
+          action_id: "reminder_cancel",
+          text: { type: "plain_text", text: "Cancel" },
+          style: "danger",
+          value: r.scheduled_message_id,
+          confirm: {
+            title: { type: "plain_text", text: "Cancel reminder?" },
+            text: { type: "plain_text", text: "The follow-up won't be posted." },
+            confirm: { type: "plain_text", text: "Cancel reminder" },
+            deny: { type: "plain_text", text: "Keep it" }
+          }
+        }
+      ]
+    },
+    { type: "divider" }
+  ];
+}
+
+export function homeView(reminders: Reminder[], tz: string): any {
+  const blocks: any[] = [
+    { type: "header", text: { type: "plain_text", text: "Your follow-up reminders" } }
+  ];
+
+  if (!reminders.length) {
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: "Nothing pending. Use the *Follow-up reminder* message shortcut to set one."
+      }
+    });
+  } else {
+    for (const r of reminders.slice(0, MAX_LISTED)) blocks.push(...reminderBlocks(r, tz));
+    if (reminders.length > MAX_LISTED) {
+      blocks.push({
+        type: "context",
+        elements: [{ type: "mrkdwn", text: `…and ${reminders.length - MAX_LISTED} more` }]
+      });
+    }
+  }
+
+  blocks.push({
+    type: "context",
+    elements: [{ type: "mrkdwn", text: `Times shown in ${tz}.` }]
+  });
+  return { type: "home", blocks };
+}
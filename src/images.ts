@@ -0,0 +1,139 @@
+import sharp from "sharp";
+import { downloadOriginal, downloadSlackPreview } from "./files";
+
+/**
+ * Image preparation for exports (and original downloads for the ZIP export).
+ *
+ * Every photo is downloaded and re-encoded before layout starts, a few at a
+ * time, so a 100-photo thread isn't 100 sequential download + sharp round
+ * trips inside the drawing loop.
+ *
+ * Optional ENV:
+ * - IMAGE_CONCURRENCY=6        -> photos downloaded/compressed at once
+ */
+
+const DEFAULT_CONCURRENCY = 6;
+
+export type PreparedImage = {
+  jpg: Buffer | null;
+  // what to print in place of the photo when jpg is null
+  error?: string;
+  // decoded from Slack's preview because the original wouldn't decode
+  fromPreview?: boolean;
+};
+
+export async function compressToJpeg(buf: Buffer, max: number): Promise<Buffer> {
+  return await sharp(buf)
+    .rotate()
+    .resize({
+      width: max,
+      height: max,
+      fit: "inside",
+      withoutEnlargement: true
+    })
+    .jpeg({ quality: 72, chromaSubsampling: "4:2:0", mozjpeg: true })
+    .toBuffer();
+}
+
+function imageConcurrency(): number {
+  const n = Number(process.env.IMAGE_CONCURRENCY);
+  return Number.isFinite(n) && n >= 1 ? Math.floor(n) : DEFAULT_CONCURRENCY;
+}
+
+// Run `fn` over `items` with at most `limit` in flight; results keep input order.
+// Once `signal` aborts no new items start, and the call rejects.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      if (signal?.aborted) throw new Error("cancelled");
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export async function prepareImage(
+  client: any,
+  botToken: string,
+  fileId: string,
+  max: number
+): Promise<PreparedImage> {
+  const orig = await downloadOriginal(client, botToken, fileId);
+  if (!orig) return { jpg: null, error: "[download failed]" };
+
+  try {
+    return { jpg: await compressToJpeg(orig, max) };
+  } catch {
+    // Fallback for HEIC files Render cannot decode:
+    // use Slack's generated preview image instead
+    try {
+      const preview = await downloadSlackPreview(client, botToken, fileId);
+      if (!preview) throw new Error("No Slack preview available for unsupported image");
+      return { jpg: await compressToJpeg(preview, max), fromPreview: true };
+    } catch (err: any) {
+      console.error("PDF image error:", fileId, err?.message || err);
+      return { jpg: null, error: "[image error]" };
+    }
+  }
+}
+
+export type PrefetchOptions = {
+  // called as each image finishes, with the image it produced
+  onProgress?(done: number, total: number, img: PreparedImage): void;
+  signal?: AbortSignal;
+};
+
+// Download + compress every image up front, keyed by file ID.
+export async function prefetchImages(
+  client: any,
+  botToken: string,
+  fileIds: string[],
+  max: number,
+  opts: PrefetchOptions = {}
+): Promise<Map<string, PreparedImage>> {
+  const unique = Array.from(new Set(fileIds));
+  let done = 0;
+  const prepared = await mapWithConcurrency(
+    unique,
+    imageConcurrency(),
+    async (id) => {
+      const img = await prepareImage(client, botToken, id, max);
+      opts.onProgress?.(++done, unique.length, img);
+      return img;
+    },
+    opts.signal
+  );
+  return new Map(unique.map((id, i) => [id, prepared[i]]));
+}
+
+// Untouched originals for the ZIP export, keyed by file ID (null if the
+// download failed). Same concurrency and cancellation as prefetchImages.
+export async function fetchOriginals(
+  client: any,
+  botToken: string,
+  fileIds: string[],
+  opts: { onProgress?(done: number, total: number, buf: Buffer | null): void; signal?: AbortSignal } = {}
+): Promise<Map<string, Buffer | null>> {
+  const unique = Array.from(new Set(fileIds));
+  let done = 0;
+  const bufs = await mapWithConcurrency(
+    unique,
+    imageConcurrency(),
+    async (id) => {
+      const buf = await downloadOriginal(client, botToken, id);
+      opts.onProgress?.(++done, unique.length, buf);
+      return buf;
+    },
+    opts.signal
+  );
+  return new Map(unique.map((id, i) => [id, bufs[i]]));
+}
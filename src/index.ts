@@ -2,8 +2,62 @@ import express from "express";
 import crypto from "crypto";
 import { App, ExpressReceiver } from "@slack/bolt";
 import fetch from "node-fetch";
-import sharp from "sharp";
-import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import { PDFDocument, PDFFont, rgb } from "pdf-lib";
+import { readThread, callWithBackoff, listThreadRoots } from "./thread";
+import { cacheFileObjects, fileInfo, fetchFilePermalink, downloadOriginal, downloadPrivateUrl } from "./files";
+import { compressToJpeg, prefetchImages, fetchOriginals, PreparedImage } from "./images";
+import { ArchiveFormat, ArchiveEntry, HtmlDocument, buildHtml, archiveFileName, manifestRow, manifestCsv, ManifestRow } from "./archive";
+import { createZip, ZipEntry } from "./zip";
+import { createJobQueue, Job } from "./jobs";
+import {
+  getReminder,
+  forgetReminder,
+  remindersIn,
+  remindersFor,
+  replyClears,
+  scheduleReminder,
+  cancelReminder,
+  moveReminder,
+  Reminder,
+  Delivery
+} from "./reminders";
+import { homeView } from "./home";
+import { createProgressReporter, progressBlocks, progressText, cancelButton, ProgressState } from "./progress";
+import { embedFonts, fitToFont } from "./pdfFonts";
+import { layoutRuns, drawRichLines, addLinkAnnotation } from "./pdfText";
+import { parseMrkdwn, runsToMarkdown, runsToPlain, escapeMarkdown, Run } from "./mrkdwn";
+import { createLayout, layoutBlocks, layoutFromState, PdfLayoutOptions, DEFAULT_LAYOUT } from "./pdfLayout";
+import { addCoverPage, addTableOfContents, addOutline, addPageFooters, TocEntry } from "./pdfNavigation";
+import {
+  userDisplayName,
+  userTimezone,
+  cachedUserTimezone,
+  channelName,
+  userCanSeeChannel,
+  isWorkspaceAdmin
+} from "./directory";
+import { parsePermalink, MessageRef } from "./permalink";
+import { ExportFilters, filterBlocks, filtersFromState, hasFilters, describeFilters, sameFilters } from "./filters";
+import { extractGroups, extractRules } from "./extract";
+import { formatLocal, fromLocal, localParts, addLocalDays, isValidTimezone } from "./zonedTime";
+import { addBusinessDays, endOfWorkWeek, nextWorkingTime, workdayStart } from "./workCalendar";
+import {
+  getCanvasRecord,
+  saveCanvasRecord,
+  forgetCanvasRecord,
+  appendToCanvas,
+  tsAfter
+} from "./canvas";
+import { getTemplate, categoryOptions, templateMarkdown, headerFieldValue, TemplateContext } from "./templates";
+import {
+  translateCaptions,
+  translationBlocks,
+  languagesFromState,
+  translationProvider,
+  defaultLanguages,
+  Translation
+} from "./translate";
+import { syncGlossaries, glossaryDrift, formatDrift } from "./glossary";
 
 /**
  * ENV REQUIRED (Render):
@@ -11,8 +65,24 @@ import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
  * - SLACK_SIGNING_SECRET=...
  *
  * Optional:
- * - ADD_SPANISH=1              -> turn on Spanish translation
+ * - ADD_SPANISH=1              -> pre-select Spanish in the export modals
  * - DEEPL_API_KEY=...          -> DeepL API key (Free or Pro)
+ * - TRANSLATION_PROVIDER / LIBRETRANSLATE_URL / TRANSLATION_LANGUAGES -> see src/translate.ts
+ * - GLOSSARY_PATH / GLOSSARY_SYNC / GLOSSARY_ADMINS -> DeepL trade-term glossary, see src/glossary.ts
+ * - THREAD_MAX_MESSAGES=5000   -> cap on replies read per thread
+ * - EXTRACT_INCLUDE_ROOT / EXTRACT_INCLUDE_BOTS / EXTRACT_INCLUDE_TEXT_ONLY / EXTRACT_MERGE_PHOTOS /
+ *   EXTRACT_MERGE_WINDOW_MIN -> which messages become export entries, see src/extract.ts
+ * - DATA_DIR=./data            -> where Canvas sync records are kept
+ * - TEMPLATES_PATH=...         -> per-category templates (default config/templates.json)
+ * - REPORT_TIMEZONE=America/Los_Angeles -> timezone for dates printed in exports, and for
+ *                              reminders when the requester's Slack profile has none
+ * - HOLIDAYS_PATH / WORKDAY_START / WORKDAY_END -> reminder working calendar, see src/workCalendar.ts
+ * - CHANNEL_TIMEZONES=C123:America/Denver,C456:America/Chicago -> per-channel override
+ * - ATTACHMENT_MAX_MB=25       -> attached PDFs larger than this are listed, not merged
+ * - ARCHIVE_MAX_MB=250         -> photos past this much data are left out of a ZIP or HTML export
+ * - IMAGE_CONCURRENCY=6        -> photos downloaded/compressed in parallel for PDFs
+ * - JOB_MAX_ATTEMPTS=4         -> tries per PDF export before it's marked failed
+ * - REPORT_MAX_THREADS=100     -> threads in one channel report, see src/thread.ts
  *
  * Scopes used:
  * chat:write,
@@ -24,7 +94,13 @@ import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
  * groups:history,
  * canvases:write,
  * canvases:read,
- * im:write
+ * im:write,
+ * users:read            (names for @mentions)
+ * channels:read, groups:read   (names for #channel links)
+ *
+ * Events used:
+ * message.channels, message.groups   (replies clear pending follow-up reminders)
+ * app_home_opened                    (Home tab lists your pending reminders)
  */
 
 const receiver = new ExpressReceiver({
@@ -65,82 +141,212 @@ app.use("/slack", express.raw({ type: "*/*" }), (req, _res, next) => {
   next();
 });
 
-// ---------- Slash command (info only) ----------
+// Slash commands must answer within 3s; slower work replies via response_url.
+async function postToResponseUrl(url: string, text: string): Promise<void> {
+  if (!url) return;
+  try {
+    await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ response_type: "ephemeral", text })
+    } as any);
+  } catch (e: any) {
+    console.error("response_url error:", e?.message || e);
+  }
+}
+
+// ---------- Slash command ----------
+// `/collate pdf|canvas|remind <permalink>` runs the shortcut pipelines on the
+// linked thread, for people who can't reach the message menu (phones).
+// `/collate glossary` reports drift between config/glossary.csv and DeepL,
+// `/collate glossary sync` pushes the file. Anything else is help text.
+const COMMAND_HELP =
+  "*/collate* works on a thread from its link (message menu → *Copy link*):\n" +
+  "• `/collate pdf <link> [category]` exports the thread as a PDF\n" +
+  "• `/collate canvas <link> [category]` collates the thread’s photos into a Canvas\n" +
+  "• `/collate remind <link> [30m|1h|3h|1bd|2bd|eow] [thread|channel|dm] [nudge] [@people]` sets a follow-up reminder\n" +
+  "• `/collate glossary [sync]` checks the DeepL trade-term glossary (sync pushes it; glossary admins only)\n" +
+  "The *Collate thread to Canvas*, *Export PDF* and *Follow-up reminder* message shortcuts do the same with more options; " +
+  "*Export thread as…* makes a self-contained HTML page or a ZIP of the original photos, " +
+  "and the *Channel report* shortcut puts every thread from a date range into one PDF or Canvas.";
+
 app.post("/slack/commands", async (req, res) => {
   if (!verifySlackSig(req)) return res.status(401).send("bad sig");
   const payload = new URLSearchParams((req as any).rawBody);
   const command = payload.get("command");
   if (command !== "/collate") return res.send("");
-  return res.json({
-    response_type: "ephemeral",
-    text:
-      "Use the message shortcut *Collate thread to Canvas* on any message inside the thread that contains your images. (Slash commands don’t carry thread context.)"
-  });
-});
 
-// === DeepL helper (Latin American Spanish, Free/Pro aware, with logging) ===
-async function translateToEs(text: string): Promise<string> {
-  try {
-    const key = process.env.DEEPL_API_KEY;
-    if (!key || !text?.trim()) return "";
+  const [first = "", ...rest] = (payload.get("text") || "").trim().split(/\s+/);
+  const sub = first.toLowerCase();
+  const responseUrl = payload.get("response_url") || "";
 
-    const target = (process.env.DEEPL_TARGET_LANG || "ES-419").trim();
-    const base = (process.env.DEEPL_BASE_URL?.trim() || "https://api-free.deepl.com/v2").replace(/\/+$/, "");
+  if (sub === "glossary") {
+    const sync = (rest[0] || "").toLowerCase() === "sync";
+    res.json({
+      response_type: "ephemeral",
+      text: sync ? "On it…" : "Comparing the glossary with DeepL…"
+    });
+    try {
+      // the glossaries are shared by every export: only admins replace them
+      if (sync && !(await canSyncGlossary(bolt.client, payload.get("user_id") || ""))) {
+        await postToResponseUrl(responseUrl, "⚠️ Only glossary admins can sync the glossary. `/collate glossary` shows what would change.");
+        return;
+      }
+      const text = sync ? (await syncGlossaries()).join("\n") : formatDrift(await glossaryDrift());
+      await postToResponseUrl(responseUrl, text);
+    } catch (e: any) {
+      console.error("glossary command error:", e?.message || e);
+      await postToResponseUrl(responseUrl, `Glossary ${sync ? "sync" : "check"} failed: ${e?.message || e}`);
+    }
+    return;
+  }
 
-    const params = new URLSearchParams();
-    params.append("text", text);
-    params.append("target_lang", target);
-    params.append("model_type", "quality_optimized");
+  if (sub !== "pdf" && sub !== "canvas" && sub !== "remind") {
+    return res.json({ response_type: "ephemeral", text: COMMAND_HELP });
+  }
 
-    const resp = await fetch(`${base}/translate`, {
-      method: "POST",
-      headers: {
-        Authorization: `DeepL-Auth-Key ${key}`,
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: params.toString(),
-    } as any);
+  const ref = parsePermalink(rest.join(" "));
+  if (!ref) {
+    return res.json({
+      response_type: "ephemeral",
+      text: `I need a link to a message in the thread: \`/collate ${sub} <link>\`. Use *Copy link* on any message in it.`
+    });
+  }
+  // everything after the link: category, reminder options, @people
+  const options = rest.filter((t) => !parsePermalink(t));
+  const user_id = payload.get("user_id") || "";
+  res.json({ response_type: "ephemeral", text: "On it…" });
 
-    if (!resp.ok) {
-      const body = await resp.text().catch(() => "");
-      console.error("deepl error:", resp.status, resp.statusText, body);
-      return "";
-    }
-    const data = await resp.json();
-    const out = data?.translations?.[0]?.text || "";
-    return typeof out === "string" ? out : "";
+  try {
+    await runCollateCommand(bolt.client, sub, ref, options, {
+      user_id,
+      user_name: payload.get("user_name") || "",
+      responseUrl
+    });
   } catch (e: any) {
-    console.error("deepl exception:", e?.message || e);
-    return "";
+    console.error("collate command error:", e?.data || e?.message || e);
+    await postToResponseUrl(responseUrl, `⚠️ \`/collate ${sub}\` failed: ${e?.data?.error || e?.message || e}`);
   }
+});
+
+// GLOSSARY_ADMINS if set, else workspace admins and owners.
+async function canSyncGlossary(client: any, userId: string): Promise<boolean> {
+  const admins = (process.env.GLOSSARY_ADMINS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  if (admins.length) return admins.includes(userId);
+  return isWorkspaceAdmin(client, userId);
 }
 
-async function compressToJpeg(buf: Buffer, max: number): Promise<Buffer> {
-  return await sharp(buf)
-    .rotate()
-    .resize({
-      width: max,
-      height: max,
-      fit: "inside",
-      withoutEnlargement: true
-    })
-    .jpeg({ quality: 72, chromaSubsampling: "4:2:0", mozjpeg: true })
-    .toBuffer();
+type CommandUser = { user_id: string; user_name: string; responseUrl: string };
+
+async function runCollateCommand(
+  client: any,
+  sub: string,
+  ref: MessageRef,
+  options: string[],
+  who: CommandUser
+): Promise<void> {
+  const reply = (text: string) => postToResponseUrl(who.responseUrl, text);
+
+  // the bot can read any channel it's in; only act for people who can too
+  if (!(await userCanSeeChannel(client, ref.channel_id, who.user_id))) {
+    await reply("⚠️ I can’t open that thread: either you don’t have access to its channel or I haven’t been added to it.");
+    return;
+  }
+
+  if (sub === "remind") {
+    const choice = options.map((o) => o.toLowerCase()).find((o) => o !== "custom" && isReminderChoice(o)) || "1bd";
+    const delivery = (options.map((o) => o.toLowerCase()).find((o) => ["thread", "channel", "dm"].includes(o)) ||
+      "thread") as Delivery;
+    const nudge = options.some((o) => o.toLowerCase() === "nudge");
+    // @people in the command win; otherwise whoever the message @mentions
+    let mentioned = mentionedUserIds(options.join(" "));
+    if (!mentioned.length) mentioned = mentionedUserIds(await messageText(client, ref));
+    mentioned = mentioned.filter((u) => u !== who.user_id);
+
+    const tz = await userTimezone(client, who.user_id, REPORT_TZ);
+    const when = reminderSendTime(choice, {}, tz);
+    if ("errors" in when) {
+      await reply(Object.values(when.errors).join(" "));
+      return;
+    }
+    const confirmation = await scheduleFollowUp(client, {
+      channel_id: ref.channel_id,
+      message_ts: ref.ts,
+      thread_ts: ref.thread_ts === ref.ts ? "" : ref.thread_ts,
+      requester: who.user_id,
+      choice,
+      post_at: when.post_at,
+      rolled: when.rolled,
+      tz,
+      mentioned,
+      delivery,
+      nudge,
+      clearOnAnyone: false,
+      fromCommand: true
+    });
+    await reply(confirmation);
+    return;
+  }
+
+  // pdf / canvas: optional category, else the one the thread's Canvas used
+  const categories = categoryOptions().map((o) => o.value);
+  const asked = options.map((o) => o.toLowerCase()).find((o) => !o.startsWith("<"));
+  if (asked && !categories.includes(asked)) {
+    await reply(`⚠️ Unknown category \`${asked}\`. Pick one of: ${categories.map((c) => `\`${c}\``).join(", ")}.`);
+    return;
+  }
+  const category = asked || getCanvasRecord(ref.channel_id, ref.thread_ts)?.category || "other";
+  const channel_name = await channelName(client, ref.channel_id);
+
+  if (sub === "pdf") {
+    await startExport(client, {
+      channel_id: ref.channel_id,
+      channel_name,
+      root_ts: ref.thread_ts,
+      requester: who.user_name,
+      category,
+      layout: { ...DEFAULT_LAYOUT },
+      showByline: true,
+      languages: defaultLanguages()
+    });
+    await reply(`📄 PDF export started — follow its progress in the thread in <#${ref.channel_id}>.`);
+    return;
+  }
+
+  await reply(`🧩 Collating the thread into a Canvas; I’ll post in the thread when it’s done.`);
+  await runCanvasCollate(client, {
+    channel_id: ref.channel_id,
+    channel_name,
+    thread_ts: ref.thread_ts,
+    requester: who.user_name,
+    category,
+    showByline: true,
+    languages: defaultLanguages()
+  });
 }
 
-// --- Optional Spanish translation (DeepL) ---
-const ADD_SPANISH = (process.env.ADD_SPANISH || "") === "1";
-const DEEPL_API_KEY = process.env.DEEPL_API_KEY || "";
-
-// Use the modern helper above (translateToEs) so we honor ES-419 and log errors.
-async function translateEs(
-  text: string
-): Promise<{ ok: boolean; es: string }> {
-  if (!ADD_SPANISH || !DEEPL_API_KEY) return { ok: false, es: "" };
-  const t = (text || "").trim();
-  if (!t) return { ok: true, es: "" };
-  const es = await translateToEs(t);
-  return es ? { ok: true, es } : { ok: false, es: "" };
+// Text of the linked message (for its @mentions); "" if Slack won't say.
+async function messageText(client: any, ref: MessageRef): Promise<string> {
+  try {
+    const res = (await callWithBackoff(() =>
+      client.conversations.replies({
+        channel: ref.channel_id,
+        ts: ref.thread_ts,
+        oldest: ref.ts,
+        latest: ref.ts,
+        inclusive: true,
+        limit: 1
+      })
+    )) as any;
+    const m = (res?.messages || []).find((x: any) => x.ts === ref.ts);
+    return (m?.text || "").toString();
+  } catch (e: any) {
+    console.error("conversations.replies error:", e?.data || e?.message || e);
+    return "";
+  }
 }
 
 // Root title helpers
@@ -155,61 +361,130 @@ function shortTitle(s: string, max = 120): string {
   const t = (s || "Export").replace(/\s+/g, " ").trim();
   return (t || "Export").slice(0, max);
 }
+// A typo'd zone would make every date format throw, so it falls back instead.
+function configuredTimezone(name: string, tz: string, fallback: string): string {
+  if (isValidTimezone(tz)) return tz;
+  console.error(`${name} error: unknown timezone "${tz}", using ${fallback}`);
+  return fallback;
+}
+
+const REPORT_TZ = configuredTimezone(
+  "REPORT_TIMEZONE",
+  process.env.REPORT_TIMEZONE?.trim() || "America/Los_Angeles",
+  "America/Los_Angeles"
+);
+
+// Timezone for a channel's exports: CHANNEL_TIMEZONES entry, else REPORT_TIMEZONE.
+function channelTimezone(channel_id: string): string {
+  for (const pair of (process.env.CHANNEL_TIMEZONES || "").split(",")) {
+    const [id, tz] = pair.split(":").map((x) => x.trim());
+    if (id === channel_id && tz) return configuredTimezone("CHANNEL_TIMEZONES", tz, REPORT_TZ);
+  }
+  return REPORT_TZ;
+}
+
+// "Oct 19, 2026" for a Slack ts (or Date) in the report timezone.
+function formatDay(when: string | Date, tz = REPORT_TZ): string {
+  const d = typeof when === "string" ? new Date(Number(when) * 1000) : when;
+  return d.toLocaleDateString("en-US", { timeZone: tz, year: "numeric", month: "short", day: "numeric" });
+}
+
+// "Oct 19, 2026, 2:14 PM PDT" for a Slack ts.
+function formatStamp(ts: string, tz = REPORT_TZ): string {
+  return new Date(Number(ts) * 1000).toLocaleString("en-US", {
+    timeZone: tz,
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short"
+  });
+}
+
+// "\n🔎 Filtered: only :camera:, photos only" for status messages; "" without filters.
+function filterNote(filters: ExportFilters | undefined, tz: string): string {
+  const text = describeFilters(filters, (t) => formatStamp(String(t), tz));
+  return text ? `\n🔎 Filtered: ${text}` : "";
+}
+
+// Who posted a message: resolved display name, or the bot/integration name.
+async function authorName(client: any, m: any): Promise<string> {
+  if (m?.user) return await userDisplayName(client, m.user);
+  return (m?.username || m?.bot_profile?.name || "").toString();
+}
+
+// "Show author and time" toggle shared by the Canvas and PDF modals.
+function bylineBlock(): any {
+  const option = {
+    text: { type: "plain_text", text: "Show who posted each entry and when" },
+    value: "byline"
+  };
+  return {
+    type: "input",
+    block_id: "byline_block",
+    optional: true,
+    label: { type: "plain_text", text: "Entry details" },
+    element: {
+      type: "checkboxes",
+      action_id: "byline_action",
+      options: [option],
+      initial_options: [option]
+    }
+  };
+}
+
+function bylineFromState(values: any): boolean {
+  return (values?.byline_block?.byline_action?.selected_options || []).some(
+    (o: any) => o.value === "byline"
+  );
+}
+
 function findRootText(messages: any[], root_ts: string): string {
   const root = messages.find((m: any) => m.ts === root_ts) || messages[0];
   const t = (root?.text || "").toString();
   return t.trim();
 }
-// --- Slack file helpers (permalink + original download) ---
-async function fetchFilePermalink(client: any, fileId: string): Promise<string | null> {
-  try {
-    const info = await client.apiCall("files.info", { file: fileId }) as any;
-    return info?.file?.permalink || null;
-  } catch {
-    return null;
+// One thread of a (possibly multi-thread) export, read in full.
+type Chapter = { root_ts: string; rootText: string; title: string; messages: any[] };
+
+// Read every thread of an export in order. A single thread keeps the plain
+// "Thread was cut short" note; in a report each note names its thread.
+async function readChapters(
+  client: any,
+  channel_id: string,
+  roots: string[],
+  onRead?: (done: number, total: number) => void
+): Promise<{ chapters: Chapter[]; truncatedNote: string }> {
+  const chapters: Chapter[] = [];
+  let truncatedNote = "";
+  for (const root_ts of roots) {
+    const thread = await readThread(client, channel_id, root_ts);
+    cacheFileObjects(thread.messages);
+    const rootText = runsToPlain(await parseMrkdwn(client, findRootText(thread.messages, root_ts)));
+    const title = shortTitle(rootText || `Thread from ${formatDay(root_ts, channelTimezone(channel_id))}`);
+    chapters.push({ root_ts, rootText, title, messages: thread.messages });
+    if (thread.truncated) {
+      truncatedNote +=
+        roots.length === 1
+          ? `\n⚠️ Thread was cut short: ${thread.reason}.`
+          : `\n⚠️ “${title}” was cut short: ${thread.reason}.`;
+    }
+    onRead?.(chapters.length, roots.length);
   }
+  return { chapters, truncatedNote };
 }
 
-async function downloadOriginal(client: any, botToken: string, fileId: string): Promise<Buffer | null> {
-  try {
-    const info = await client.apiCall("files.info", { file: fileId }) as any;
-    const url: string | undefined = info?.file?.url_private_download || info?.file?.url_private;
-    if (!url) return null;
-    const res = await fetch(url, { headers: { Authorization: `Bearer ${botToken}` } } as any);
-    if (!res.ok) return null;
-    const ab = await res.arrayBuffer();
-    return Buffer.from(ab);
-  } catch {
-    return null;
-  }
+function formatBytes(n: number): string {
+  if (!n) return "size unknown";
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(0)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
 }
 
-async function downloadSlackPreview(client: any, botToken: string, fileId: string): Promise<Buffer | null> {
-  try {
-    const info = await client.apiCall("files.info", { file: fileId }) as any;
-    const f = info?.file || {};
-
-    const url: string | undefined =
-      f.thumb_2048 ||
-      f.thumb_1920 ||
-      f.thumb_1600 ||
-      f.thumb_1024 ||
-      f.thumb_960 ||
-      f.thumb_720 ||
-      f.thumb_480 ||
-      f.thumb_360;
-
-    if (!url) return null;
-
-    const res = await fetch(url, { headers: { Authorization: `Bearer ${botToken}` } } as any);
-    if (!res.ok) return null;
-
-    const ab = await res.arrayBuffer();
-    return Buffer.from(ab);
-  } catch {
-    return null;
-  }
-}
+const ATTACHMENT_MAX_BYTES = (Number(process.env.ATTACHMENT_MAX_MB) || 25) * 1024 * 1024;
+// Every photo is held in memory while the ZIP or HTML page is built, and Slack caps uploads.
+const ARCHIVE_MAX_BYTES = (Number(process.env.ARCHIVE_MAX_MB) || 250) * 1024 * 1024;
 
 // =======================================================
 // SHORTCUT A: Collate thread to Canvas
@@ -220,6 +495,11 @@ bolt.shortcut("collate_thread", async ({ ack, shortcut, client, logger }) => {
     const { channel, message_ts, thread_ts, trigger_id } = shortcut as any;
     const root_ts = thread_ts || message_ts;
     const channel_id = channel.id as string;
+    const existing = getCanvasRecord(channel_id, root_ts);
+    const options = categoryOptions();
+    const initial = options.find((o) => o.value === existing?.category);
+    // updates have to use the filters the Canvas was made with
+    const madeWith = describeFilters(existing?.filters, (t) => formatStamp(String(t), channelTimezone(channel_id)));
 
     await client.views.open({
       trigger_id,
@@ -228,10 +508,11 @@ bolt.shortcut("collate_thread", async ({ ack, shortcut, client, logger }) => {
         callback_id: "collate_modal",
         private_metadata: JSON.stringify({
           channel_id,
+          channel_name: channel.name || "",
           thread_ts: root_ts
         }),
         title: { type: "plain_text", text: "Collate to Canvas" },
-        submit: { type: "plain_text", text: "Create Canvas" },
+        submit: { type: "plain_text", text: existing ? "Update Canvas" : "Create Canvas" },
         close: { type: "plain_text", text: "Cancel" },
         blocks: [
           {
@@ -242,15 +523,29 @@ bolt.shortcut("collate_thread", async ({ ack, shortcut, client, logger }) => {
               type: "static_select",
               action_id: "category_action",
               placeholder: { type: "plain_text", text: "Choose a category" },
-              options: [
-                { text: { type: "plain_text", text: "Maintenance" }, value: "maintenance" },
-                { text: { type: "plain_text", text: "Construction" }, value: "construction" },
-                { text: { type: "plain_text", text: "Irrigation" }, value: "irrigation" },
-                { text: { type: "plain_text", text: "Bidding" }, value: "bidding" },
-                { text: { type: "plain_text", text: "Other" }, value: "other" }
-              ]
+              // categories come from config/templates.json
+              options,
+              ...(initial ? { initial_option: initial } : {})
             }
-          }
+          },
+          ...translationBlocks(),
+          bylineBlock(),
+          ...filterBlocks(),
+          ...(madeWith
+            ? [
+                {
+                  type: "context",
+                  elements: [
+                    {
+                      type: "mrkdwn",
+                      text:
+                        `The Canvas was made with these filters: ${madeWith}. ` +
+                        "Choose the same ones to update it; other filters make a new Canvas."
+                    }
+                  ]
+                }
+              ]
+            : [])
         ]
       }
     });
@@ -259,244 +554,682 @@ bolt.shortcut("collate_thread", async ({ ack, shortcut, client, logger }) => {
   }
 });
 
-bolt.view("collate_modal", async ({ ack, view, client, logger }) => {
+bolt.view("collate_modal", async ({ ack, view, client, body, logger }) => {
+  const filters = filtersFromState(view.state.values);
+  if ("errors" in filters) {
+    await ack({ response_action: "errors", errors: filters.errors });
+    return;
+  }
   await ack();
   try {
     const meta = JSON.parse(view.private_metadata || "{}");
-    const channel_id = meta.channel_id as string;
-    const thread_ts = meta.thread_ts as string;
-    const category = (view.state.values.category_block.category_action.selected_option?.value || "other") as string;
+    await runCanvasCollate(
+      client,
+      {
+        channel_id: meta.channel_id as string,
+        channel_name: (meta.channel_name || "") as string,
+        thread_ts: meta.thread_ts as string,
+        requester: ((body as any)?.user?.name || "") as string,
+        category: (view.state.values.category_block.category_action.selected_option?.value || "other") as string,
+        showByline: bylineFromState(view.state.values),
+        languages: languagesFromState(view.state.values),
+        filters
+      },
+      logger
+    );
+  } catch (e: any) {
+    (logger || console).error("modal submit error:", e?.data || e?.message || e);
+  }
+});
 
-    const replies = await client.conversations.replies({
-      channel: channel_id,
-      ts: thread_ts,
-      limit: 200
-    });
-    const messages = replies.messages || [];
+type CanvasRequest = {
+  channel_id: string;
+  channel_name: string;
+  // thread root
+  thread_ts: string;
+  requester: string;
+  category: string;
+  showByline: boolean;
+  languages: string[];
+  // which replies to include; none = every image message
+  filters?: ExportFilters;
+  // channel report: root ts of every thread, one chapter each (thread_ts is "")
+  threads?: string[];
+  title?: string;
+};
+
+// Create the thread's Canvas, or append what's new to the one made before.
+// Outcomes are posted in the thread. Shared by the shortcut and /collate canvas.
+// A channel report always makes a new Canvas and reports in the channel.
+async function runCanvasCollate(client: any, req: CanvasRequest, logger?: any): Promise<void> {
+  const { channel_id, category, showByline, languages } = req;
+  const report = !!req.threads?.length;
+  // status messages go to the thread, or to the channel for a report
+  const thread_ts = report ? undefined : req.thread_ts;
+  const source = report ? "these threads" : "this thread";
+  const tz = channelTimezone(channel_id);
+
+  const { chapters, truncatedNote } = await readChapters(client, channel_id, report ? req.threads! : [req.thread_ts]);
+
+  // Already collated once? Then only append what was posted since. Messages
+  // before last_ts that other filters would take can't be appended, so a run
+  // with different filters makes a new Canvas instead.
+  const previous = report ? undefined : getCanvasRecord(channel_id, req.thread_ts);
+  const existing = previous && sameFilters(previous.filters, req.filters) ? previous : undefined;
+  const refiltered = previous && !existing ? `\nThe filters differ from the earlier Canvas's, so this is a new Canvas.` : "";
+
+  const rootText = report ? req.title || "" : chapters[0].rootText;
+  const template = getTemplate(category);
+  const canvasTitle = existing?.title || req.title || shortTitle(rootText || `Collated — ${template.label}`);
 
-    const rootText = findRootText(messages, thread_ts);
-    const canvasTitle = shortTitle(rootText || `Collated — ${category}`);
+  type Group = {
+    chapter: number;
+    ts: string;
+    lastTs: string;
+    author: string;
+    caption: string;
+    translations: Translation[];
+    filePermalinks: string[];
+    // non-image files (PDFs, videos, docs) linked under the photos
+    attachments: Array<{ name: string; permalink: string }>;
+  };
+  const groups: Group[] = [];
+  // plain-text captions, translated in one batch once the groups are known
+  const plainCaptions: string[] = [];
+
+  const selfBotId = await ownBotId(client);
+  const extracted = chapters.flatMap((c, chapter) =>
+    extractGroups(c.messages, extractRules("canvas"), {
+      root_ts: c.root_ts,
+      selfBotId,
+      afterTs: existing?.last_ts,
+      filters: req.filters
+    }).map((g) => ({ ...g, chapter }))
+  );
+  for (const g of extracted) {
+    const captionRuns = await parseMrkdwn(client, g.caption);
 
-    type Group = {
-      caption: string;
-      captionEs?: string;
-      filePermalinks: string[];
-    };
-    const groups: Group[] = [];
-
-    for (const m of messages) {
-      const files = (m as any).files as Array<any> | undefined;
-      if (!files || !files.length) continue;
-
-      const caption =
-        (m as any).text?.trim() ||
-        (files[0]?.initial_comment?.comment?.trim?.() ?? "") ||
-        (files[0]?.title?.trim?.() ?? "");
-
-      const permaList: string[] = [];
-      for (const f of files) {
-        if (!/^image\//.test(f.mimetype || "")) continue;
-        const perma = await fetchFilePermalink(client, f.id);
-        if (perma) permaList.push(perma);
-      }
-      if (permaList.length) {
-        let captionEs: string | undefined = undefined;
-        if (ADD_SPANISH) {
-          const res = await translateEs(caption);
-          if (res.ok && res.es) captionEs = res.es;
-        }
-        groups.push({
-          caption,
-          captionEs,
-          filePermalinks: permaList
-        });
-      }
+    const permaList: string[] = [];
+    for (const f of g.images) {
+      const perma = await fetchFilePermalink(client, f.id);
+      if (perma) permaList.push(perma);
     }
-
-    if (!groups.length) {
-      await client.chat.postMessage({
-        channel: channel_id,
-        thread_ts,
-        text: "I didn’t find any images in this thread."
-      });
-      return;
+    const attachments: Group["attachments"] = [];
+    for (const f of [...g.videos, ...g.pdfs, ...g.others]) {
+      const perma = await fetchFilePermalink(client, f.id);
+      if (perma) attachments.push({ name: f.name || f.title || "file", permalink: perma });
     }
 
-    // Build Canvas markdown with numbering + Spanish below English
-    const lines: string[] = [];
-    lines.push(`# ${canvasTitle}`, "");
-    groups.forEach((g, idx) => {
-      const num = idx + 1;
-      lines.push(`**${num}.** ${g.caption}`, "");
-      if (ADD_SPANISH && g.captionEs) {
-        lines.push(`*ES:* ${g.captionEs}`, "");
-      }
-      for (const link of g.filePermalinks) {
-        lines.push(`![](${link})`, "");
-      }
-      lines.push("---", "");
+    groups.push({
+      chapter: g.chapter,
+      ts: g.ts,
+      lastTs: g.lastTs,
+      author: showByline ? await authorName(client, { user: g.user, username: g.botName }) : "",
+      caption: runsToMarkdown(captionRuns),
+      translations: [],
+      filePermalinks: permaList,
+      attachments
     });
-    const markdown = lines.join("\n");
+    plainCaptions.push(runsToPlain(captionRuns));
+  }
 
-    const created = (await client.apiCall("canvases.create", {
-      title: canvasTitle,
-      channel_id: channel_id,
-      document_content: { type: "markdown", markdown }
-    })) as any;
+  // the Canvas is interactive, so a translation outage just means no translations
+  const translated = await translateCaptions(plainCaptions, languages).catch((e: any) => {
+    console.error("translation error:", e?.message || e);
+    return plainCaptions.map((): Translation[] => []);
+  });
+  groups.forEach((g, i) => (g.translations = translated[i]));
+
+  if (!groups.length) {
+    await client.chat.postMessage({
+      channel: channel_id,
+      thread_ts,
+      text:
+        (existing
+          ? `Nothing new since the last Canvas update (*${canvasTitle}*).`
+          : hasFilters(req.filters)
+          ? `Nothing in ${source} matched the filters.`
+          : `I didn’t find any photos or replies to collate in ${source}.`) +
+        filterNote(req.filters, tz) +
+        truncatedNote
+    });
+    return;
+  }
 
-    if (!created?.ok) {
-      (logger || console).error("canvases.create failed:", created);
+  // Build Canvas markdown with numbering + translations below the original.
+  // On an update, numbering continues where the Canvas left off.
+  const startNum = existing ? existing.count : 0;
+  const lines: string[] = [];
+  if (!existing) {
+    lines.push(`# ${canvasTitle}`, "");
+    lines.push(
+      ...templateMarkdown(template, {
+        channelName: req.channel_name,
+        requester: req.requester,
+        rootText,
+        date: new Date(),
+        tz
+      })
+    );
+  }
+  groups.forEach((g, idx) => {
+    const num = startNum + idx + 1;
+    if (report && (idx === 0 || groups[idx - 1].chapter !== g.chapter)) {
+      const c = chapters[g.chapter];
+      lines.push(`## ${c.title}`, "", `_${formatStamp(c.root_ts, tz)}_`, "");
+    }
+    lines.push(`**${num}.** ${g.caption}`, "");
+    if (showByline) {
+      lines.push(`_${[escapeMarkdown(g.author), formatStamp(g.ts, tz)].filter(Boolean).join(" · ")}_`, "");
+    }
+    for (const t of g.translations) {
+      lines.push(`*${t.label}:* ${t.text}`, "");
+    }
+    for (const link of g.filePermalinks) {
+      lines.push(`![](${link})`, "");
+    }
+    for (const a of g.attachments) {
+      lines.push(`📎 [${a.name}](${a.permalink})`, "");
+    }
+    lines.push("---", "");
+  });
+  const markdown = lines.join("\n");
+  const last_ts = groups[groups.length - 1].lastTs;
+
+  if (existing) {
+    const err = await appendToCanvas(client, existing.canvas_id, markdown);
+    if (err) {
+      (logger || console).error("canvases.edit failed:", err);
+      // The Canvas was deleted or we lost access: forget it so the next run starts fresh.
+      const gone = /not_found|deleted|access_denied/.test(err);
+      if (gone) forgetCanvasRecord(channel_id, req.thread_ts);
       await client.chat.postMessage({
         channel: channel_id,
         thread_ts,
-        text: `⚠️ Canvas create failed.`
+        text: gone
+          ? `⚠️ I couldn’t find the Canvas made from this thread anymore. Run the shortcut again to create a new one.`
+          : `⚠️ Canvas update failed.`
       });
       return;
     }
 
+    saveCanvasRecord(channel_id, req.thread_ts, {
+      ...existing,
+      last_ts,
+      count: startNum + groups.length,
+      updated_at: new Date().toISOString()
+    });
+
     await client.chat.postMessage({
       channel: channel_id,
       thread_ts,
-      text: `✅ Created a Canvas: *${canvasTitle}*. Open the **Canvas** tab in this channel to view & edit.`
+      text:
+        `✅ Updated the Canvas *${canvasTitle}* with ${groups.length} new ${groups.length === 1 ? "entry" : "entries"} (#${startNum + 1}–${startNum + groups.length}).` +
+        filterNote(req.filters, tz) +
+        truncatedNote
     });
-  } catch (e: any) {
-    (logger || console).error("modal submit error:", e?.data || e?.message || e);
+    return;
   }
-});
-
-// =======================================================
-// SHORTCUT B: Export thread as PDF
-// =======================================================
-bolt.shortcut("export_pdf", async ({ ack, shortcut, client }) => {
-  await ack();
-  const botToken = process.env.SLACK_BOT_TOKEN as string;
-  const { channel, message_ts, thread_ts } = shortcut as any;
-  const root_ts = thread_ts || message_ts;
-  const channel_id = channel.id as string;
 
-  // progress message
-  const startMsg = await client.chat.postMessage({
-    channel: channel_id,
-    thread_ts: root_ts,
-    text: "Step 0/4: Starting export…"
-  });
-  const progress_ts = (startMsg as any).ts as string;
+  const created = (await client.apiCall("canvases.create", {
+    title: canvasTitle,
+    channel_id: channel_id,
+    document_content: { type: "markdown", markdown }
+  })) as any;
 
-  // STEP 1: get replies
-  await client.chat.update({
-    channel: channel_id,
-    ts: progress_ts,
-    text: "Step 1/4: Reading thread…"
-  });
-  const replies = await client.conversations.replies({
-    channel: channel_id,
-    ts: root_ts,
-    limit: 200
-  });
-  const messages = replies.messages || [];
+  if (!created?.ok) {
+    (logger || console).error("canvases.create failed:", created);
+    await client.chat.postMessage({
+      channel: channel_id,
+      thread_ts,
+      text: `⚠️ Canvas create failed.`
+    });
+    return;
+  }
 
-  const rootText = findRootText(messages, root_ts);
-  const niceTitle = shortTitle(rootText || "Export");
-  const fileBase = sanitizeForFilename(
-    rootText || `PrintExport_${new Date().toISOString().slice(0, 10)}`
-  );
-  const filename = `${fileBase}.pdf`;
+  // reports aren't tied to one thread, so there's nothing to update later
+  if (created.canvas_id && !report) {
+    saveCanvasRecord(channel_id, req.thread_ts, {
+      canvas_id: created.canvas_id as string,
+      title: canvasTitle,
+      category,
+      last_ts,
+      count: groups.length,
+      ...(hasFilters(req.filters) ? { filters: req.filters } : {}),
+      updated_at: new Date().toISOString()
+    });
+  }
 
-  // STEP 2: group by message
-  await client.chat.update({
+  await client.chat.postMessage({
     channel: channel_id,
-    ts: progress_ts,
-    text: "Step 2/4: Grouping images by message…"
+    thread_ts,
+    text:
+      `✅ Created a Canvas: *${canvasTitle}*. Open the **Canvas** tab in this channel to view & edit.` +
+      filterNote(req.filters, tz) +
+      refiltered +
+      truncatedNote
   });
-  type Group = {
-    caption: string;
-    captionEs?: string;
-    fileIds: string[];
-  };
-  const groups: Group[] = [];
-
-  for (const m of messages) {
-  // Never include the root/header message
-  if ((m as any).ts === root_ts) continue;
-
-  // Never include this bot's own progress/status messages
-  if ((m as any).ts === progress_ts) continue;
-  if ((m as any).bot_id) continue;
-
-  const files = ((m as any).files as Array<any> | undefined) || [];
+}
 
-  const caption =
-    (m as any).text?.trim() ||
-    (files[0]?.initial_comment?.comment?.trim?.() ?? "") ||
-    (files[0]?.title?.trim?.() ?? "");
+// =======================================================
+// SHORTCUT B: Export thread as PDF
+// =======================================================
+bolt.shortcut("export_pdf", async ({ ack, shortcut, client, logger }) => {
+  await ack();
+  try {
+    const { channel, message_ts, thread_ts, trigger_id } = shortcut as any;
+    const root_ts = thread_ts || message_ts;
+    const channel_id = channel.id as string;
+    // Default to the category the thread's Canvas was collated with, if any.
+    const options = categoryOptions();
+    const category = getCanvasRecord(channel_id, root_ts)?.category || "other";
+    const initial = options.find((o) => o.value === category);
 
-  const fileIds: string[] = [];
-  for (const f of files) {
-    if (!/^image\//.test(f.mimetype || "")) continue;
-    fileIds.push(f.id);
+    await client.views.open({
+      trigger_id,
+      view: {
+        type: "modal",
+        callback_id: "export_pdf_modal",
+        private_metadata: JSON.stringify({
+          channel_id,
+          channel_name: channel.name || "",
+          thread_ts: root_ts
+        }),
+        title: { type: "plain_text", text: "Export PDF" },
+        submit: { type: "plain_text", text: "Export PDF" },
+        close: { type: "plain_text", text: "Cancel" },
+        blocks: [
+          {
+            type: "input",
+            block_id: "category_block",
+            label: { type: "plain_text", text: "Category" },
+            element: {
+              type: "static_select",
+              action_id: "category_action",
+              placeholder: { type: "plain_text", text: "Choose a category" },
+              options,
+              ...(initial ? { initial_option: initial } : {})
+            }
+          },
+          ...layoutBlocks(),
+          ...translationBlocks(),
+          bylineBlock(),
+          ...filterBlocks()
+        ]
+      }
+    });
+  } catch (e: any) {
+    (logger || console).error("shortcut error:", e?.data || e?.message || e);
   }
+});
 
-  // Skip only if the reply has neither usable text nor images
-  if (!caption && !fileIds.length) continue;
-
-  let captionEs: string | undefined = undefined;
-  if (ADD_SPANISH && caption) {
-    const res = await translateEs(caption);
-    if (res.ok && res.es) captionEs = res.es;
+// PDF exports run as durable background jobs (see src/jobs.ts): they survive
+// restarts, retry Slack/DeepL hiccups and offer a Retry button when they fail.
+const exportJobs = createJobQueue<ExportRequest>("export_jobs", {
+  async run(job, signal) {
+    // the file went up before a retry or restart: only the status line is missing
+    if (job.posted) {
+      await bolt.client.chat.update({ channel: job.channel_id, ts: job.progress_ts, text: job.posted.text, blocks: [] });
+      return;
+    }
+    await (job.payload.format === "html" || job.payload.format === "zip" ? runArchiveExport : runPdfExport)(
+      bolt.client,
+      job.payload,
+      job.progress_ts,
+      job.id,
+      signal
+    );
+  },
+  async onRetry(job, err, delayMs) {
+    const text = `⏳ Hit a temporary error (${err?.data?.error || err?.message || err}); retrying in ${Math.ceil(delayMs / 1000)}s…`;
+    await bolt.client.chat.update({
+      channel: job.channel_id,
+      ts: job.progress_ts,
+      text,
+      blocks: [
+        { type: "section", text: { type: "mrkdwn", text } },
+        { type: "actions", elements: [cancelButton(job.id)] }
+      ]
+    });
+  },
+  async onCancelled(job) {
+    await bolt.client.chat.update({
+      channel: job.channel_id,
+      ts: job.progress_ts,
+      text: "🚫 Export cancelled.",
+      blocks: []
+    });
+  },
+  async onFailed(job, err) {
+    const reason = err?.data?.error || err?.message || String(err);
+    await bolt.client.chat.update({
+      channel: job.channel_id,
+      ts: job.progress_ts,
+      text: `❌ ${formatLabel(job.payload.format)} export failed: ${reason}`,
+      blocks: [
+        {
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: `❌ *${formatLabel(job.payload.format)} export failed* after ${job.attempts} ${job.attempts === 1 ? "try" : "tries"}: ${reason}`
+          }
+        },
+        {
+          type: "actions",
+          elements: [
+            {
+              type: "button",
+              action_id: "export_retry",
+              text: { type: "plain_text", text: "Retry" },
+              style: "primary",
+              value: job.id
+            }
+          ]
+        }
+      ]
+    });
   }
+});
 
-  groups.push({
-    caption,
-    captionEs,
-    fileIds
-  });
-}
-
-  if (!groups.length) {
+bolt.action("export_retry", async ({ ack, body, client, logger }) => {
+  await ack();
+  try {
+    const jobId = (body as any).actions?.[0]?.value as string;
+    const job: Job<ExportRequest> | undefined = exportJobs.retry(jobId);
+    const channel = (body as any).channel?.id || job?.channel_id;
+    const ts = (body as any).message?.ts || job?.progress_ts;
+    const retrying: ProgressState = { step: 0, steps: 4, label: "Retrying export…" };
     await client.chat.update({
-      channel: channel_id,
-      ts: progress_ts,
-      text: "No text or images found in this thread."
+      channel,
+      ts,
+      text: job ? progressText(retrying) : "This export can’t be retried any more — run the shortcut again.",
+      blocks: job ? progressBlocks(retrying, job.id) : []
     });
-    return;
+  } catch (e: any) {
+    (logger || console).error("export_retry error:", e?.data || e?.message || e);
   }
+});
+
+bolt.action("export_cancel", async ({ ack, body, client, logger }) => {
+  await ack();
+  try {
+    const jobId = (body as any).actions?.[0]?.value as string;
+    const outcome = exportJobs.cancel(jobId);
+    // a running export posts "cancelled" itself once it has stopped
+    if (outcome === "cancelling") return;
+    await client.chat.update({
+      channel: (body as any).channel?.id,
+      ts: (body as any).message?.ts,
+      text: outcome === "cancelled" ? "🚫 Export cancelled." : "This export has already finished.",
+      blocks: []
+    });
+  } catch (e: any) {
+    (logger || console).error("export_cancel error:", e?.data || e?.message || e);
+  }
+});
+
+bolt.view("export_pdf_modal", async ({ ack, view, client, body, logger }) => {
+  const filters = filtersFromState(view.state.values);
+  if ("errors" in filters) {
+    await ack({ response_action: "errors", errors: filters.errors });
+    return;
+  }
+  await ack();
+  try {
+    const meta = JSON.parse(view.private_metadata || "{}");
+    const values = view.state.values;
+    const req: ExportRequest = {
+      channel_id: meta.channel_id as string,
+      channel_name: (meta.channel_name || "") as string,
+      root_ts: meta.thread_ts as string,
+      requester: ((body as any)?.user?.name || "") as string,
+      category: (values.category_block?.category_action?.selected_option?.value || "other") as string,
+      layout: layoutFromState(values),
+      showByline: bylineFromState(values),
+      languages: languagesFromState(values),
+      filters
+    };
+
+    await startExport(client, req);
+  } catch (e: any) {
+    (logger || console).error("pdf export error:", e?.data || e?.message || e);
+  }
+});
+
+// Post the progress message in the thread (the channel, for a report) and queue
+// the export (any format) behind it.
+async function startExport(client: any, req: ExportRequest): Promise<Job<ExportRequest>> {
+  // progress message first, so the job always has somewhere to report
+  const startMsg = await client.chat.postMessage({
+    channel: req.channel_id,
+    ...(req.root_ts ? { thread_ts: req.root_ts } : {}),
+    text: "Step 0/4: Starting export…"
+  });
+  const job = exportJobs.enqueue(req, { channel_id: req.channel_id, progress_ts: (startMsg as any).ts as string });
+  // add the Cancel button now that the job has an id (it may wait behind another export)
+  if (job.status === "queued") {
+    const queued: ProgressState = { step: 0, steps: 4, label: "Waiting for the export queue…" };
+    await client.chat.update({
+      channel: req.channel_id,
+      ts: job.progress_ts,
+      text: progressText(queued),
+      blocks: progressBlocks(queued, job.id)
+    });
+  }
+  return job;
+}
+
+type ExportGroup = {
+  // index into the export's threads (always 0 for a single thread)
+  chapter: number;
+  ts: string;
+  user: string;
+  author: string;
+  caption: string;
+  captionRuns: Run[];
+  translations: Translation[];
+  fileIds: string[];
+  // videos show as their poster thumbnail, PDFs are merged after the
+  // entry, anything else goes to the Attachments appendix
+  videos: any[];
+  pdfs: any[];
+  others: any[];
+};
+
+// Our own bot ID (auth.test), so status posts never end up in an export.
+let botIdLookup: Promise<string> | null = null;
+function ownBotId(client: any): Promise<string> {
+  if (!botIdLookup) {
+    botIdLookup = client.auth
+      .test()
+      .then((res: any) => (res?.bot_id || "") as string)
+      .catch((e: any) => {
+        console.error("auth.test error:", e?.data || e?.message || e);
+        // try again next export
+        botIdLookup = null;
+        return "";
+      });
+  }
+  return botIdLookup as Promise<string>;
+}
+
+// Export groups for the PDF and HTML/ZIP outputs (see src/extract.ts for what
+// is included), with authors and parsed captions. Translations are filled in
+// afterwards, in one batch.
+async function groupReplies(
+  client: any,
+  messages: any[],
+  opts: { root_ts: string; progress_ts: string; showByline: boolean; filters?: ExportFilters }
+): Promise<ExportGroup[]> {
+  const extracted = extractGroups(messages, extractRules("export"), {
+    root_ts: opts.root_ts,
+    skipTs: [opts.progress_ts],
+    selfBotId: await ownBotId(client),
+    filters: opts.filters
+  });
+
+  const groups: ExportGroup[] = [];
+  for (const g of extracted) {
+    groups.push({
+      chapter: 0,
+      ts: g.ts,
+      user: g.user,
+      author: opts.showByline ? await authorName(client, { user: g.user, username: g.botName }) : "",
+      caption: g.caption,
+      captionRuns: await parseMrkdwn(client, g.caption),
+      translations: [],
+      fileIds: g.images.map((f) => f.id as string),
+      videos: g.videos,
+      pdfs: g.pdfs,
+      others: g.others
+    });
+  }
+  return groups;
+}
+
+type ExportFormat = "pdf" | ArchiveFormat;
+
+function formatLabel(format: ExportFormat | undefined): string {
+  return format === "html" ? "HTML" : format === "zip" ? "ZIP" : "PDF";
+}
+
+type ExportRequest = {
+  // missing on jobs queued before other formats existed
+  format?: ExportFormat;
+  channel_id: string;
+  channel_name: string;
+  root_ts: string;
+  requester: string;
+  category: string;
+  layout: PdfLayoutOptions;
+  showByline: boolean;
+  // target language codes, one labeled block each under the caption
+  languages: string[];
+  // which replies to include; none = everything
+  filters?: ExportFilters;
+  // channel report (PDF only): root ts of every thread, one chapter each;
+  // root_ts is then "" and everything is posted in the channel
+  threads?: string[];
+  title?: string;
+};
+
+// Throws on failure; the export job decides whether to retry.
+// `signal` aborts when someone presses Cancel on the status message.
+async function runPdfExport(
+  client: any,
+  req: ExportRequest,
+  progress_ts: string,
+  jobId: string,
+  signal: AbortSignal
+): Promise<void> {
+  const { channel_id, root_ts } = req;
+  const tz = channelTimezone(channel_id);
+  const progress = createProgressReporter(
+    client,
+    channel_id,
+    progress_ts,
+    { step: 1, steps: 4, label: "Reading thread…" },
+    jobId
+  );
+  const stopIfCancelled = () => {
+    if (signal.aborted) throw new Error("cancelled");
+  };
+
+  // STEP 1: get replies (every thread's, for a channel report)
+  const roots = req.threads?.length ? req.threads : [root_ts];
+  const report = roots.length > 1 || !root_ts;
+  await progress.update(report ? { label: "Reading threads…", unit: "thread", done: 0, total: roots.length } : {}, true);
+  const { chapters, truncatedNote } = await readChapters(client, channel_id, roots, (done, total) => {
+    if (report) void progress.update({ done, total }, done === total);
+  });
+  // kept on every later progress update so the warning stays visible
+  if (truncatedNote) await progress.update({ note: truncatedNote.trim() });
+  stopIfCancelled();
+
+  const rootText = report ? req.title || "" : chapters[0].rootText;
+  const niceTitle = req.title || shortTitle(rootText || "Export");
+  const template = getTemplate(req.category);
+  const templateCtx: TemplateContext = {
+    channelName: req.channel_name,
+    requester: req.requester,
+    rootText,
+    date: new Date(),
+    tz
+  };
+  const fileBase = sanitizeForFilename(
+    rootText || `PrintExport_${new Date().toISOString().slice(0, 10)}`
+  );
+  const filename = `${fileBase}.pdf`;
+
+  // STEP 2: group by message
+  await progress.update({ step: 2, label: "Grouping images by message…", unit: undefined, total: undefined });
+  const groups: ExportGroup[] = [];
+  for (let c = 0; c < chapters.length; c++) {
+    const chapterGroups = await groupReplies(client, chapters[c].messages, {
+      root_ts: chapters[c].root_ts,
+      progress_ts,
+      showByline: req.showByline,
+      filters: req.filters
+    });
+    for (const g of chapterGroups) groups.push({ ...g, chapter: c });
+  }
+
+  // one batched (and cached) translation pass instead of a call per caption
+  const translated = await translateCaptions(
+    groups.map((g) => runsToPlain(g.captionRuns)),
+    req.languages
+  );
+  groups.forEach((g, i) => (g.translations = translated[i]));
+
+  if (!groups.length) {
+    const none = hasFilters(req.filters)
+      ? "No messages matched the filters."
+      : `No text or images found in ${report ? "these threads" : "this thread"}.`;
+    await progress.finish(`${none}${filterNote(req.filters, tz)}${truncatedNote}`);
+    return;
+  }
+  stopIfCancelled();
 
   // STEP 3: build PDF
-  await client.chat.update({
-    channel: channel_id,
-    ts: progress_ts,
-    text: `Step 3/4: Building PDF…`
+  // Download + compress every photo before layout, several at a time.
+  const allImageIds = groups.flatMap((g) => g.fileIds);
+  let fallback = 0;
+  let failed = 0;
+  await progress.update({
+    step: 3,
+    label: "Preparing photos…",
+    unit: "image",
+    done: 0,
+    total: allImageIds.length
   });
+  const images = await prefetchImages(client, process.env.SLACK_BOT_TOKEN as string, allImageIds, 1800, {
+    signal,
+    onProgress(done, total, img) {
+      if (img.fromPreview) fallback++;
+      if (!img.jpg) failed++;
+      void progress.update({ done, total, fallback, failed }, done === total);
+    }
+  });
+  stopIfCancelled();
+  await progress.update({ label: "Laying out pages…", unit: "entry", done: 0, total: groups.length }, true);
 
   const pdf = await PDFDocument.create();
   pdf.setTitle(niceTitle);
-  const font = await pdf.embedFont(StandardFonts.Helvetica);
-  const fontBold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const fonts = await embedFonts(pdf);
+  const font = fonts.regular;
+  const fontBold = fonts.bold;
 
-  const pageW = 612,
-    pageH = 792;
-  const margin = 36;
-  const contentW = pageW - margin * 2;
-  const gutter = 16;
+  const layout = createLayout(pdf, req.layout);
+  const { margin, contentW } = layout;
 
   const titleSize = 14;
   const captionSize = 11;
-  const captionEsSize = 10;
+  const translationSize = 10;
+  const bylineSize = 9;
   const lineH = captionSize + 3;
-  const lineHes = captionEsSize + 2;
+  const lineHtr = translationSize + 2;
   const maxCaptionLines = 8;
-  const maxCaptionEsLines = 8;
-
-  const tileW = Math.floor((contentW - gutter) / 2);
-  const tileHMax = 240;
-
-  function addPageNoHeader() {
-    const p = pdf.addPage([pageW, pageH]);
-    return p;
-  }
-
-  let page = addPageNoHeader();
-  let y = pageH - margin;
+  const maxTranslationLines = 8;
 
   function sanitizePdfText(text: string): string {
   return (text || "")
@@ -507,19 +1240,25 @@ bolt.shortcut("export_pdf", async ({ ack, shortcut, client }) => {
     .replace(/&#39;/g, "'");
 }
   
+  // Decode entities and swap out glyphs `f` can't draw, so what we measure is what we draw.
+  function pdfSafe(f: PDFFont, text: string): string {
+    return fitToFont(f, sanitizePdfText(text));
+  }
+
 function wrapSimple(
   text: string,
   maxWidth: number,
   size: number,
-  maxLines: number
+  maxLines: number,
+  f: PDFFont
 ): string[] {
-  const words = (text || "").replace(/\r/g, "").split(/\s+/);
+  const words = pdfSafe(f, (text || "").replace(/\r/g, "")).split(/\s+/);
   const lines: string[] = [];
   let cur = "";
 
   for (const w of words) {
     const test = cur ? `${cur} ${w}` : w;
-    if (fontBold.widthOfTextAtSize(test, size) <= maxWidth) {
+    if (f.widthOfTextAtSize(test, size) <= maxWidth) {
       cur = test;
     } else {
       if (cur) {
@@ -538,11 +1277,11 @@ function wrapSimple(
 }
   
   // Title once, top of first page, wrapped to page width
-const titleLines = wrapSimple(sanitizePdfText(niceTitle), contentW, titleSize, 4);
+const titleLines = wrapSimple(niceTitle, contentW, titleSize, 4, fontBold);
 
-let titleY = y - titleSize;
+let titleY = layout.y - titleSize;
 for (const line of titleLines) {
-  page.drawText(line, {
+  layout.page.drawText(line, {
     x: margin,
     y: titleY,
     size: titleSize,
@@ -553,22 +1292,18 @@ for (const line of titleLines) {
 }
 
 // extra spacing under wrapped title
-y = titleY - 10;
+layout.y = titleY - 10;
 
-  function ensureSpace(required: number) {
-    if (y - required < margin) {
-      page = addPageNoHeader();
-      y = pageH - margin;
-    }
-  }
+  const ensureSpace = layout.ensureSpace;
 
 function wrapPreserveLines(
   text: string,
   maxWidth: number,
   size: number,
-  maxLines: number
+  maxLines: number,
+  f: PDFFont
 ): string[] {
-  const sourceLines = (text || "").replace(/\r/g, "").split("\n");
+  const sourceLines = pdfSafe(f, (text || "").replace(/\r/g, "")).split("\n");
   const lines: string[] = [];
 
   for (const rawLine of sourceLines) {
@@ -586,7 +1321,7 @@ function wrapPreserveLines(
 
     for (const w of words) {
       const test = cur ? `${cur} ${w}` : w;
-      if (font.widthOfTextAtSize(test, size) <= maxWidth) {
+      if (f.widthOfTextAtSize(test, size) <= maxWidth) {
         cur = test;
       } else {
         if (cur) {
@@ -610,53 +1345,22 @@ function wrapPreserveLines(
   async function drawTile(
   x: number,
   topY: number,
-  fileId: string
+  fileId: string,
+  maxH: number = layout.tileHMax
 ): Promise<number> {
-  const orig = await downloadOriginal(
-    client,
-    (process as any).env.SLACK_BOT_TOKEN as string,
-    fileId
-  );
-
-  if (!orig) {
-    page.drawText("[download failed]", {
-      x,
-      y: topY - lineH,
-      size: captionSize,
-      font,
-      color: rgb(0.4, 0, 0)
-    });
-    return tileHMax;
-  }
+  const prepared: PreparedImage = images.get(fileId) || { jpg: null, error: "[download failed]" };
 
   try {
-    let jpg: Buffer;
-
-    try {
-      // Original working pipeline
-      jpg = await compressToJpeg(orig, 1800);
-    } catch {
-      // Fallback for HEIC files Render cannot decode:
-      // use Slack's generated preview image instead
-      const preview = await downloadSlackPreview(
-        client,
-        (process as any).env.SLACK_BOT_TOKEN as string,
-        fileId
-      );
+    if (!prepared.jpg) throw new Error(prepared.error);
 
-      if (!preview) throw new Error("No Slack preview available for unsupported image");
-
-      jpg = await compressToJpeg(preview, 1800);
-    }
-
-    const img = await pdf.embedJpg(jpg);
+    const img = await pdf.embedJpg(prepared.jpg);
     const iw = img.width,
       ih = img.height;
-    const scale = Math.min(tileW / iw, tileHMax / ih);
+    const scale = Math.min(layout.tileW / iw, maxH / ih);
     const w = iw * scale,
       h = ih * scale;
 
-    page.drawImage(img, {
+    layout.page.drawImage(img, {
       x,
       y: topY - h,
       width: w,
@@ -665,9 +1369,8 @@ function wrapPreserveLines(
 
     return h;
   } catch (err: any) {
-    console.error("PDF image error:", err?.message || err);
-
-    page.drawText("[image error]", {
+    if (prepared.jpg) console.error("PDF image error:", err?.message || err);
+    layout.page.drawText(prepared.error || "[image error]", {
       x,
       y: topY - lineH,
       size: captionSize,
@@ -675,18 +1378,263 @@ function wrapPreserveLines(
       color: rgb(0.4, 0, 0)
     });
 
-    return tileHMax;
+    return maxH;
   }
 }
 
-  // number + captions + Spanish + images
+  // Video: Slack's poster frame with a play band, linked to the file in Slack
+  async function drawVideoTile(
+    x: number,
+    topY: number,
+    file: any,
+    maxH: number = layout.tileHMax
+  ): Promise<number> {
+    const botToken = process.env.SLACK_BOT_TOKEN as string;
+    const poster = file.thumb_video ? await downloadPrivateUrl(botToken, file.thumb_video) : null;
+
+    let w = layout.tileW;
+    let h = Math.min(maxH, Math.round(layout.tileW * 0.5625));
+    try {
+      if (!poster) throw new Error("no poster thumbnail");
+      const img = await pdf.embedJpg(await compressToJpeg(poster, 1200));
+      const scale = Math.min(layout.tileW / img.width, maxH / img.height);
+      w = img.width * scale;
+      h = img.height * scale;
+      layout.page.drawImage(img, { x, y: topY - h, width: w, height: h });
+    } catch {
+      layout.page.drawRectangle({ x, y: topY - h, width: w, height: h, color: rgb(0.85, 0.85, 0.85) });
+    }
+
+    const band = captionSize + 8;
+    layout.page.drawRectangle({ x, y: topY - h, width: w, height: band, color: rgb(0, 0, 0), opacity: 0.6 });
+    const [label] = wrapSimple(`▶ ${file.name || file.title || "Video"}`, w - 8, captionSize, 1, fontBold);
+    layout.page.drawText(label || "", {
+      x: x + 4,
+      y: topY - h + 5,
+      size: captionSize,
+      font: fontBold,
+      color: rgb(1, 1, 1)
+    });
+    if (file.permalink) addLinkAnnotation(layout.page, [x, topY - h, x + w, topY], file.permalink);
+    return h;
+  }
+
+  type AppendixItem = { num: number; file: any; note?: string };
+  const appendix: AppendixItem[] = [];
+
+  // Merge an attached PDF's pages right after the current entry.
+  async function appendAttachedPdf(num: number, file: any): Promise<void> {
+    const name = (file.name || file.title || "attachment.pdf") as string;
+    if (file.size && file.size > ATTACHMENT_MAX_BYTES) {
+      appendix.push({ num, file, note: "too large to merge" });
+      return;
+    }
+    const bytes = await downloadOriginal(client, process.env.SLACK_BOT_TOKEN as string, file.id);
+    if (!bytes) {
+      appendix.push({ num, file, note: "download failed" });
+      return;
+    }
+    try {
+      const src = await PDFDocument.load(bytes, { ignoreEncryption: true });
+      const copied = await pdf.copyPages(src, src.getPageIndices());
+
+      ensureSpace(lineH + 4);
+      const [note] = wrapSimple(
+        `Attached PDF: ${name} (${copied.length} ${copied.length === 1 ? "page follows" : "pages follow"})`,
+        contentW,
+        captionSize,
+        1,
+        fontBold
+      );
+      layout.page.drawText(note || "", {
+        x: margin,
+        y: layout.y - captionSize,
+        size: captionSize,
+        font: fontBold,
+        color: rgb(0.2, 0.2, 0.2)
+      });
+      layout.y -= lineH + 4;
+
+      for (const p of copied) pdf.addPage(p);
+      // the next entry starts after the merged pages
+      layout.closePage();
+    } catch (err: any) {
+      console.error("PDF merge error:", name, err?.message || err);
+      appendix.push({ num, file, note: "could not be merged" });
+    }
+  }
+
+  // Category template: header fields, checklist, line-item table, sections
+  function drawHeading(text: string) {
+    const size = 12;
+    ensureSpace(size + 8);
+    layout.page.drawText(pdfSafe(fontBold, text), {
+      x: margin,
+      y: layout.y - size,
+      size,
+      font: fontBold,
+      color: rgb(0, 0, 0)
+    });
+    layout.y -= size + 8;
+  }
+
+  function drawRule(x1: number, x2: number, yy: number) {
+    layout.page.drawLine({
+      start: { x: x1, y: yy },
+      end: { x: x2, y: yy },
+      thickness: 0.5,
+      color: rgb(0.6, 0.6, 0.6)
+    });
+  }
+
+  function drawTemplateBlock() {
+    const fields = template.headerFields || [];
+    for (const f of fields) {
+      ensureSpace(lineH + 2);
+      const label = pdfSafe(fontBold, `${f.label}: `);
+      layout.page.drawText(label, {
+        x: margin,
+        y: layout.y - captionSize,
+        size: captionSize,
+        font: fontBold,
+        color: rgb(0, 0, 0)
+      });
+      const lx = margin + fontBold.widthOfTextAtSize(label, captionSize);
+      const value = headerFieldValue(f, templateCtx);
+      if (value) {
+        const [first] = wrapSimple(value, margin + contentW - lx, captionSize, 1, font);
+        layout.page.drawText(first || "", {
+          x: lx,
+          y: layout.y - captionSize,
+          size: captionSize,
+          font,
+          color: rgb(0, 0, 0)
+        });
+      } else {
+        // blank field: a line to write on
+        drawRule(lx, margin + contentW / 2, layout.y - captionSize - 2);
+      }
+      layout.y -= lineH + 2;
+    }
+    if (fields.length) layout.y -= 8;
+
+    if (template.checklist?.length) {
+      drawHeading("Checklist");
+      for (const item of template.checklist) {
+        ensureSpace(lineH + 2);
+        layout.page.drawRectangle({
+          x: margin,
+          y: layout.y - captionSize,
+          width: 9,
+          height: 9,
+          borderColor: rgb(0, 0, 0),
+          borderWidth: 0.75
+        });
+        const [first] = wrapSimple(item, contentW - 16, captionSize, 1, font);
+        layout.page.drawText(first || "", {
+          x: margin + 16,
+          y: layout.y - captionSize,
+          size: captionSize,
+          font,
+          color: rgb(0, 0, 0)
+        });
+        layout.y -= lineH + 2;
+      }
+      layout.y -= 8;
+    }
+
+    if (template.lineItems?.columns?.length) {
+      const cols = template.lineItems.columns;
+      const rows = template.lineItems.rows ?? 5;
+      const rowH = lineH + 6;
+      const colW = contentW / cols.length;
+
+      drawHeading("Line items");
+      ensureSpace(rowH * (rows + 1));
+      const top = layout.y;
+      const bottom = top - rowH * (rows + 1);
+
+      for (let r = 0; r <= rows + 1; r++) drawRule(margin, margin + contentW, top - r * rowH);
+      for (let c = 0; c <= cols.length; c++) {
+        const x = margin + c * colW;
+        layout.page.drawLine({
+          start: { x, y: top },
+          end: { x, y: bottom },
+          thickness: 0.5,
+          color: rgb(0.6, 0.6, 0.6)
+        });
+      }
+      cols.forEach((col, c) => {
+        const [first] = wrapSimple(col, colW - 8, captionSize, 1, fontBold);
+        layout.page.drawText(first || "", {
+          x: margin + c * colW + 4,
+          y: top - rowH + 5,
+          size: captionSize,
+          font: fontBold,
+          color: rgb(0, 0, 0)
+        });
+      });
+      layout.y = bottom - 14;
+    }
+
+    for (const section of template.sections || []) {
+      drawHeading(section.title);
+      if (section.body) {
+        for (const line of wrapPreserveLines(section.body, contentW, captionSize, maxCaptionLines, font)) {
+          ensureSpace(lineH);
+          layout.page.drawText(line, {
+            x: margin,
+            y: layout.y - captionSize,
+            size: captionSize,
+            font,
+            color: rgb(0, 0, 0)
+          });
+          layout.y -= lineH;
+        }
+      } else {
+        // two ruled lines for hand-written notes
+        ensureSpace(lineH * 2 + 4);
+        drawRule(margin, margin + contentW, layout.y - lineH);
+        drawRule(margin, margin + contentW, layout.y - lineH * 2);
+        layout.y -= lineH * 2;
+      }
+      layout.y -= 10;
+    }
+
+    if (template.entriesHeading) drawHeading(template.entriesHeading);
+  }
+
+  drawTemplateBlock();
+
+  // number + captions + translations + images
+  const tocEntries: TocEntry[] = [];
   for (let idx = 0; idx < groups.length; idx++) {
+    stopIfCancelled();
     const g = groups[idx];
     const num = idx + 1;
+    await progress.update({ done: idx, total: groups.length });
+
+    // channel report: each thread starts a chapter on a new page, titled by its root
+    if (report && (idx === 0 || groups[idx - 1].chapter !== g.chapter)) {
+      const c = chapters[g.chapter];
+      if (idx > 0) layout.newPage();
+      tocEntries.push({ title: c.title, page: layout.page, y: layout.y });
+      drawHeading(c.title);
+      ensureSpace(bylineSize + 8);
+      layout.page.drawText(pdfSafe(font, formatStamp(c.root_ts, tz)), {
+        x: margin,
+        y: layout.y - bylineSize,
+        size: bylineSize,
+        font,
+        color: rgb(0.4, 0.4, 0.4)
+      });
+      layout.y -= bylineSize + 10;
+    }
 
-    const englishBlock = `${num}. ${g.caption || ""}`;
-    const capLines = wrapPreserveLines(
+    const englishBlock: Run[] = [{ text: `${num}. ` }, ...g.captionRuns];
+    const capLines = layoutRuns(
   englishBlock,
+  fonts,
   contentW,
   captionSize,
   maxCaptionLines
@@ -695,86 +1643,167 @@ function wrapPreserveLines(
       ? capLines.length * lineH + 2
       : 0;
 
-    const esLines =
-  ADD_SPANISH && g.captionEs
-    ? wrapPreserveLines(
-        g.captionEs,
-        contentW,
-        captionEsSize,
-        maxCaptionEsLines
-      )
-    : [];
-    const esHeight = esLines.length
-      ? esLines.length * lineHes + 6
-      : 0;
-
-    const firstRow = g.fileIds.length ? tileHMax + 14 : 0;
-    ensureSpace(capHeight + esHeight + firstRow);
+    // one labeled block per translation
+    const trBlocks = g.translations.map((t) => ({
+      label: pdfSafe(fontBold, `${t.label}:`),
+      lines: wrapPreserveLines(t.text, contentW, translationSize, maxTranslationLines, font)
+    }));
+    const trHeight = trBlocks.reduce((h, b) => h + lineHtr + b.lines.length * lineHtr + 6, 0);
+
+    const bylineText = req.showByline
+      ? pdfSafe(font, [g.author, formatStamp(g.ts, tz)].filter(Boolean).join("  ·  "))
+      : "";
+    const bylineHeight = bylineText ? bylineSize + 6 : 0;
+
+    if (layout.opts.fullPage) {
+      // every entry starts on its own page; its first photo shares that page
+      if (idx > 0) layout.newPage();
+    } else {
+      const firstRow = g.fileIds.length ? layout.tileHMax + layout.rowGap : 0;
+      ensureSpace(capHeight + bylineHeight + trHeight + firstRow);
+    }
+    tocEntries.push({
+      title: `${num}. ${runsToPlain(g.captionRuns).split("\n")[0] || "(no caption)"}`,
+      page: layout.page,
+      y: layout.y,
+      // under its thread's chapter in a report
+      level: report ? 1 : 0
+    });
 
     // English caption
     if (capHeight) {
-      let yy = y - captionSize;
-      for (const line of capLines) {
-        page.drawText(sanitizePdfText(line), {
-          x: margin,
-          y: yy,
-          size: captionSize,
-          font,
-          color: rgb(0, 0, 0)
-        });
-        yy -= lineH;
-      }
-      y = yy - 2;
+      const yy = drawRichLines(layout.page, capLines, margin, layout.y, captionSize, lineH, rgb(0, 0, 0));
+      layout.y = yy - 2;
     }
 
-    // Spanish caption below
-    if (esLines.length) {
-      let yy = y - captionEsSize;
-      for (const line of esLines) {
-        page.drawText(sanitizePdfText(line), {
+    // Author + time under the numbered caption
+    if (bylineText) {
+      layout.page.drawText(bylineText, {
+        x: margin,
+        y: layout.y - bylineSize,
+        size: bylineSize,
+        font,
+        color: rgb(0.4, 0.4, 0.4)
+      });
+      layout.y -= bylineHeight;
+    }
+
+    // Translations below
+    for (const b of trBlocks) {
+      let yy = layout.y - translationSize;
+      layout.page.drawText(b.label, {
+        x: margin,
+        y: yy,
+        size: translationSize,
+        font: fontBold,
+        color: rgb(0.2, 0.2, 0.2)
+      });
+      yy -= lineHtr;
+      for (const line of b.lines) {
+        layout.page.drawText(line, {
           x: margin,
           y: yy,
-          size: captionEsSize,
+          size: translationSize,
           font,
           color: rgb(0.2, 0.2, 0.2)
         });
-        yy -= lineHes;
+        yy -= lineHtr;
       }
-      y = yy - 6;
+      layout.y = yy - 6;
     }
 
-    // draw images 2-up
-    for (let i = 0; i < g.fileIds.length; i += 2) {
-      ensureSpace(tileHMax + 14);
-
-      const hLeft = await drawTile(margin, y, g.fileIds[i]);
-      let hRight = 0;
-      if (i + 1 < g.fileIds.length) {
-        hRight = await drawTile(margin + (contentW - gutter) / 2 + gutter, y, g.fileIds[i + 1]);
-        // NOTE: we changed x positioning here in earlier iterations; keeping consistent.
-        // But to avoid drift, let's explicitly recompute tileW each loop:
+    // photos first, then video posters, in the same grid
+    const tiles: Array<{ id: string; video?: any }> = [
+      ...g.fileIds.map((id) => ({ id })),
+      ...g.videos.map((f) => ({ id: f.id as string, video: f }))
+    ];
+    const placeTile = (x: number, t: { id: string; video?: any }, maxH?: number) =>
+      t.video ? drawVideoTile(x, layout.y, t.video, maxH) : drawTile(x, layout.y, t.id, maxH);
+
+    if (layout.opts.fullPage) {
+      // one photo per page, filling whatever the page has left
+      for (let i = 0; i < tiles.length; i++) {
+        if (i > 0 || layout.remaining() < 200) layout.newPage();
+        const h = await placeTile(margin, tiles[i], layout.remaining() - layout.rowGap);
+        layout.y -= h + layout.rowGap;
+      }
+    } else {
+      // draw images in a grid, `layout.columns` per row
+      for (let i = 0; i < tiles.length; i += layout.columns) {
+        ensureSpace(layout.tileHMax + layout.rowGap);
+
+        let rowH = 0;
+        for (let col = 0; col < layout.columns && i + col < tiles.length; col++) {
+          const h = await placeTile(layout.columnX(col), tiles[i + col]);
+          rowH = Math.max(rowH, h);
+        }
+        layout.y -= rowH + layout.rowGap;
       }
+    }
+
+    for (const f of g.pdfs) await appendAttachedPdf(num, f);
+    for (const f of g.others) appendix.push({ num, file: f });
+
+    layout.y -= 10; // gap between groups
+  }
 
-      const rowH = Math.max(hLeft, hRight);
-      y -= rowH + 14;
+  // Attachments appendix: everything we couldn't draw or merge, with links back to Slack
+  if (appendix.length) {
+    layout.ensureSpace(120);
+    tocEntries.push({ title: "Attachments", page: layout.page, y: layout.y });
+    drawHeading("Attachments");
+    for (const item of appendix) {
+      const f = item.file;
+      const desc: Run[] = [
+        {
+          text: `Entry ${item.num}: ${f.name || f.title || "file"} · ${formatBytes(Number(f.size) || 0)}${
+            item.note ? ` (${item.note})` : ""
+          }`
+        }
+      ];
+      if (f.permalink) desc.push({ text: "\n" }, { text: f.permalink, url: f.permalink });
+      const lines = layoutRuns(desc, fonts, contentW, captionSize, 4);
+      ensureSpace(lines.length * lineH + 8);
+      layout.y = drawRichLines(layout.page, lines, margin, layout.y, captionSize, lineH, rgb(0, 0, 0)) - 4;
     }
+  }
 
-    y -= 10; // gap between groups
+  // Report navigation: cover, contents, bookmarks, footers (needs final page positions)
+  const exportedAt = formatDay(new Date(), tz);
+  if (req.layout.coverPage) {
+    const userIds = Array.from(new Set(groups.map((g) => g.user).filter(Boolean)));
+    const contributors: string[] = [];
+    for (const id of userIds) contributors.push(await userDisplayName(client, id));
+    const first = formatDay(groups[0].ts, tz);
+    const last = formatDay(groups[groups.length - 1].ts, tz);
+
+    addCoverPage(pdf, fonts, layout, {
+      title: niceTitle,
+      category: template.label,
+      channelName: req.channel_name,
+      dateRange: first === last ? first : `${first} – ${last}`,
+      contributors,
+      entryCount: groups.length,
+      photoCount: groups.reduce((n, g) => n + g.fileIds.length, 0),
+      exportedAt
+    });
   }
+  if (req.layout.toc) {
+    addTableOfContents(pdf, fonts, layout, tocEntries, req.layout.coverPage ? 1 : 0);
+  }
+  addOutline(pdf, tocEntries);
+  addPageFooters(pdf, fonts, exportedAt);
 
   const pdfBytes = await pdf.save();
   const bodyBuf = Buffer.from(pdfBytes);
 
   // STEP 4: upload via files.uploadV2
-  await client.chat.update({
-    channel: channel_id,
-    ts: progress_ts,
-    text: "Step 4/4: Uploading PDF…"
-  });
+  stopIfCancelled();
+  await progress.update({ step: 4, label: "Uploading PDF…", total: undefined });
 
   const up2 = await (client as any).files.uploadV2({
     channel_id,
-    thread_ts: root_ts,
+    ...(root_ts ? { thread_ts: root_ts } : {}),
     filename,
     initial_comment: `📄 ${niceTitle}`,
     file: bodyBuf,
@@ -783,107 +1812,634 @@ function wrapPreserveLines(
   });
 
   if (!up2?.ok) {
-    await client.chat.update({
-      channel: channel_id,
-      ts: progress_ts,
-      text: `Upload failed: ${up2?.error || "unknown_error"}`
+    throw Object.assign(new Error(`Upload failed: ${up2?.error || "unknown_error"}`), {
+      data: { error: up2?.error }
     });
-    return;
   }
 
-  await client.chat.update({
-    channel: channel_id,
-    ts: progress_ts,
-    text: "✅ Done: PDF posted in this thread."
-  });
-});
-
-// =======================================================
-// SHORTCUT C: FOLLOW-UP REMINDER
-// (Clutter-reduced version: keep Jump back link, DROP the manual quoted line)
-// =======================================================
-
-// --- Time helpers (America/Los_Angeles) ---
-function toPST(dateUTC: Date): Date {
-  const fmt = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/Los_Angeles",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: false
-  });
-  const partsArr = fmt.formatToParts(dateUTC) as Array<{
-    type: string;
-    value: string;
-  }>;
-  const parts: Record<string, string> = {};
-  for (const p of partsArr) {
-    parts[p.type] = p.value;
-  }
-  const y = parts.year || "1970";
-  const m = parts.month || "01";
-  const d = parts.day || "01";
-  const hh = parts.hour || "00";
-  const mm = parts.minute || "00";
-  const ss = parts.second || "00";
-
-  return new Date(`${y}-${m}-${d}T${hh}:${mm}:${ss}.000-08:00`);
-}
-
-function addBusinessDaysPST(startUTC: Date, days: number): Date {
-  let d = toPST(startUTC);
-  let added = 0;
-  while (added < days) {
-    d.setDate(d.getDate() + 1);
-    const dow = d.getDay(); // 0=Sun,6=Sat
-    if (dow !== 0 && dow !== 6) {
-      added++;
+  // Cancelled while the upload was in flight: take the file back down.
+  const file_ids = uploadedFileIds(up2);
+  if (signal.aborted) {
+    for (const id of file_ids) {
+      await client.files
+        .delete({ file: id })
+        .catch((e: any) => console.error("files.delete error:", e?.data || e?.message || e));
     }
+    throw new Error("cancelled");
   }
-  return d;
-}
 
-function upcomingFridayAt4pmPST(fromUTC: Date): Date {
-  let d = toPST(fromUTC);
-  const dow = d.getDay(); // 0=Sun..6=Sat
-  const daysToFri = (5 - dow + 7) % 7;
-  d.setDate(d.getDate() + daysToFri);
-  d.setHours(16, 0, 0, 0); // 4 PM
-  return d;
+  const notes = [
+    fallback ? `${fallback} ${fallback === 1 ? "photo" : "photos"} used Slack’s preview` : "",
+    failed ? `${failed} ${failed === 1 ? "photo" : "photos"} failed` : ""
+  ].filter(Boolean);
+  const done =
+    `✅ Done: PDF posted in this ${root_ts ? "thread" : "channel"}.${notes.length ? ` (${notes.join(", ")})` : ""}` +
+    filterNote(req.filters, tz) +
+    truncatedNote;
+  exportJobs.markPosted(jobId, { file_ids, text: done });
+  await progress.finish(done);
 }
 
-// detect first mentioned user ID in @mention format
-function firstMentionUserId(text: string): string | null {
-  const m = (text || "").match(/<@([UW][A-Z0-9]+)>/i);
-  return m ? m[1] : null;
+// IDs of the files a files.uploadV2 call created.
+function uploadedFileIds(up2: any): string[] {
+  return ((up2?.files || []) as any[])
+    .flatMap((f: any) => f?.files || [f])
+    .map((f: any) => (f?.id || "") as string)
+    .filter(Boolean);
 }
 
-// Shortcut handler: open the reminder modal
-bolt.shortcut("follow_up_reminder", async ({ ack, shortcut, client }) => {
+// =======================================================
+// SHORTCUT D: Export thread as HTML / ZIP of originals
+// =======================================================
+bolt.shortcut("export_thread_as", async ({ ack, shortcut, client, logger }) => {
   await ack();
+  try {
+    const { channel, message_ts, thread_ts, trigger_id } = shortcut as any;
+    const formats = [
+      {
+        text: { type: "plain_text" as const, text: "Web page (HTML)" },
+        description: { type: "plain_text" as const, text: "One file with the photos inline; opens offline" },
+        value: "html"
+      },
+      {
+        text: { type: "plain_text" as const, text: "ZIP of original photos" },
+        description: {
+          type: "plain_text" as const,
+          text: "Full-resolution originals with manifest.json and manifest.csv"
+        },
+        value: "zip"
+      }
+    ];
 
-  const { channel, message_ts, thread_ts, message } = shortcut as any;
-  const channel_id = channel.id as string;
-  const origin_text = (message?.text || "").toString();
-  const thread_ts_value = thread_ts || ""; // "" = top-level message
+    await client.views.open({
+      trigger_id,
+      view: {
+        type: "modal",
+        callback_id: "export_as_modal",
+        private_metadata: JSON.stringify({
+          channel_id: channel.id as string,
+          channel_name: channel.name || "",
+          thread_ts: thread_ts || message_ts
+        }),
+        title: { type: "plain_text", text: "Export thread as…" },
+        submit: { type: "plain_text", text: "Export" },
+        close: { type: "plain_text", text: "Cancel" },
+        blocks: [
+          {
+            type: "input",
+            block_id: "format_block",
+            label: { type: "plain_text", text: "Format" },
+            element: {
+              type: "radio_buttons",
+              action_id: "format_action",
+              options: formats,
+              initial_option: formats[0]
+            }
+          },
+          ...translationBlocks(),
+          bylineBlock(),
+          ...filterBlocks()
+        ]
+      }
+    });
+  } catch (e: any) {
+    (logger || console).error("shortcut error:", e?.data || e?.message || e);
+  }
+});
 
-  await client.views.open({
-    trigger_id: (shortcut as any).trigger_id,
-    view: {
-      type: "modal",
-      callback_id: "follow_up_submit",
-      private_metadata: JSON.stringify({
-        channel_id,
-        message_ts,
-        thread_ts: thread_ts_value,
-        origin_text
-      }),
-      title: { type: "plain_text", text: "Follow-up reminder" },
-      submit: { type: "plain_text", text: "Set reminder" },
-      close: { type: "plain_text", text: "Cancel" },
+bolt.view("export_as_modal", async ({ ack, view, client, body, logger }) => {
+  const filters = filtersFromState(view.state.values);
+  if ("errors" in filters) {
+    await ack({ response_action: "errors", errors: filters.errors });
+    return;
+  }
+  await ack();
+  try {
+    const meta = JSON.parse(view.private_metadata || "{}");
+    const values = view.state.values;
+    const channel_id = meta.channel_id as string;
+    const root_ts = meta.thread_ts as string;
+    await startExport(client, {
+      format: (values.format_block?.format_action?.selected_option?.value || "html") as ArchiveFormat,
+      channel_id,
+      channel_name: (meta.channel_name || "") as string,
+      root_ts,
+      requester: ((body as any)?.user?.name || "") as string,
+      category: getCanvasRecord(channel_id, root_ts)?.category || "other",
+      layout: { ...DEFAULT_LAYOUT },
+      showByline: bylineFromState(values),
+      languages: languagesFromState(values),
+      filters
+    });
+  } catch (e: any) {
+    (logger || console).error("archive export error:", e?.data || e?.message || e);
+  }
+});
+
+// HTML page or ZIP of originals. Runs on the export job queue like the PDF,
+// so it shares its progress message, Cancel and Retry.
+async function runArchiveExport(
+  client: any,
+  req: ExportRequest,
+  progress_ts: string,
+  jobId: string,
+  signal: AbortSignal
+): Promise<void> {
+  const { channel_id, root_ts } = req;
+  const format: ArchiveFormat = req.format === "zip" ? "zip" : "html";
+  const tz = channelTimezone(channel_id);
+  const botToken = process.env.SLACK_BOT_TOKEN as string;
+  const progress = createProgressReporter(
+    client,
+    channel_id,
+    progress_ts,
+    { step: 1, steps: 4, label: "Reading thread…" },
+    jobId
+  );
+  const stopIfCancelled = () => {
+    if (signal.aborted) throw new Error("cancelled");
+  };
+
+  // STEP 1: get replies
+  await progress.update({}, true);
+  const thread = await readThread(client, channel_id, root_ts);
+  const messages = thread.messages;
+  cacheFileObjects(messages);
+  const truncatedNote = thread.truncated ? `\n⚠️ Thread was cut short: ${thread.reason}.` : "";
+  if (thread.truncated) await progress.update({ note: `⚠️ Thread was cut short: ${thread.reason}.` });
+  stopIfCancelled();
+
+  const rootText = runsToPlain(await parseMrkdwn(client, findRootText(messages, root_ts)));
+  const title = shortTitle(rootText || "Export");
+  const fileBase = sanitizeForFilename(rootText || `Export_${new Date().toISOString().slice(0, 10)}`);
+
+  // STEP 2: group by message (the ZIP manifest always names the author)
+  await progress.update({ step: 2, label: "Grouping photos by message…" });
+  const groups = await groupReplies(client, messages, {
+    root_ts,
+    progress_ts,
+    showByline: req.showByline || format === "zip",
+    filters: req.filters
+  });
+  const translated = await translateCaptions(
+    groups.map((g) => runsToPlain(g.captionRuns)),
+    req.languages
+  );
+  groups.forEach((g, i) => (g.translations = translated[i]));
+  const entries: ArchiveEntry[] = groups.map((g, i) => ({
+    num: i + 1,
+    user: g.user,
+    author: g.author,
+    ts: g.ts,
+    stamp: formatStamp(g.ts, tz),
+    captionRuns: g.captionRuns,
+    translations: g.translations
+  }));
+  const photoIds = groups.flatMap((g) => g.fileIds);
+  if (!groups.length || (format === "zip" && !photoIds.length)) {
+    const none = hasFilters(req.filters)
+      ? "No messages matched the filters."
+      : `No ${format === "zip" ? "photos" : "text or photos"} found in this thread.`;
+    await progress.finish(`${none}${filterNote(req.filters, tz)}${truncatedNote}`);
+    return;
+  }
+  stopIfCancelled();
+
+  // STEP 3: photos — recompressed for the page, untouched for the ZIP
+  let failed = 0;
+  // photos past ARCHIVE_MAX_BYTES
+  let leftOut = 0;
+  await progress.update({ step: 3, label: "Downloading photos…", unit: "image", done: 0, total: photoIds.length });
+  let file: Buffer;
+  let filename: string;
+  let content_type: string;
+
+  if (format === "html") {
+    const images = await prefetchImages(client, botToken, photoIds, 1800, {
+      signal,
+      onProgress(done, total, img) {
+        if (!img.jpg) failed++;
+        void progress.update({ done, total, failed }, done === total);
+      }
+    });
+    // photos in entry order until ARCHIVE_MAX_BYTES of page data (base64 adds a third)
+    const tooBig = new Set<string>();
+    let bytes = 0;
+    for (const id of photoIds) {
+      const jpg = images.get(id)?.jpg;
+      if (!jpg) continue;
+      bytes += Math.ceil(jpg.length / 3) * 4;
+      if (bytes > ARCHIVE_MAX_BYTES) {
+        tooBig.add(id);
+        images.delete(id);
+      }
+    }
+    leftOut = tooBig.size;
+    const doc: HtmlDocument = {
+      title,
+      subtitle: [
+        req.channel_name ? `#${req.channel_name}` : "",
+        getTemplate(req.category).label,
+        `exported ${formatDay(new Date(), tz)}`
+      ]
+        .filter(Boolean)
+        .join(" · "),
+      showByline: req.showByline,
+      entries: await Promise.all(
+        entries.map(async (e, i) => ({
+          ...e,
+          photos: await Promise.all(
+            groups[i].fileIds.map(async (id) => {
+              const img = images.get(id);
+              const name = ((await fileInfo(client, id))?.name || id) as string;
+              if (tooBig.has(id)) return { jpg: null, name, error: "left out: archive size limit" };
+              return { jpg: img?.jpg || null, name, error: img?.error };
+            })
+          ),
+          attachments: (
+            await Promise.all(
+              [...groups[i].videos, ...groups[i].pdfs, ...groups[i].others].map(async (f: any) => ({
+                name: (f.name || f.title || "file") as string,
+                permalink: (await fetchFilePermalink(client, f.id)) || ""
+              }))
+            )
+          ).filter((a) => a.permalink)
+        }))
+      )
+    };
+    file = Buffer.from(buildHtml(doc), "utf8");
+    filename = `${fileBase}.html`;
+    content_type = "text/html";
+  } else {
+    // photos in entry order until ARCHIVE_MAX_BYTES; the rest aren't downloaded
+    let planned = 0;
+    const wanted = new Set<string>();
+    for (const id of photoIds) {
+      planned += Number((await fileInfo(client, id))?.size) || 0;
+      if (planned > ARCHIVE_MAX_BYTES) break;
+      wanted.add(id);
+    }
+    const originals = await fetchOriginals(client, botToken, Array.from(wanted), {
+      signal,
+      onProgress(done, total, buf) {
+        if (!buf) failed++;
+        void progress.update({ done, total, failed }, done === total);
+      }
+    });
+    const zipEntries: ZipEntry[] = [];
+    const rows: ManifestRow[] = [];
+    let bytes = 0;
+    for (let i = 0; i < groups.length; i++) {
+      const e = entries[i];
+      const date = new Date(Number(e.ts) * 1000);
+      for (let j = 0; j < groups[i].fileIds.length; j++) {
+        const id = groups[i].fileIds[j];
+        const f = await fileInfo(client, id);
+        let buf = originals.get(id) || null;
+        let error = buf ? undefined : "download failed";
+        // Slack didn't know the size up front: the real bytes still count
+        if (!wanted.has(id) || (buf && bytes + buf.length > ARCHIVE_MAX_BYTES)) {
+          buf = null;
+          error = "left out: archive size limit";
+          leftOut++;
+        }
+        if (buf) bytes += buf.length;
+        const name = archiveFileName(e.num, j + 1, runsToPlain(e.captionRuns), f);
+        if (buf) zipEntries.push({ name, data: buf, date });
+        rows.push(manifestRow(e, j + 1, f, buf ? name : "", buf ? buf.length : 0, error));
+      }
+    }
+    originals.clear();
+    const exportedAt = new Date();
+    const manifest = {
+      title,
+      channel: req.channel_name,
+      thread_ts: root_ts,
+      exported_at: exportedAt.toISOString(),
+      timezone: tz,
+      files: rows
+    };
+    zipEntries.push(
+      { name: "manifest.json", data: Buffer.from(JSON.stringify(manifest, null, 2), "utf8"), date: exportedAt },
+      { name: "manifest.csv", data: Buffer.from(manifestCsv(rows), "utf8"), date: exportedAt }
+    );
+    file = createZip(zipEntries);
+    filename = `${fileBase}.zip`;
+    content_type = "application/zip";
+  }
+
+  // STEP 4: upload via files.uploadV2
+  stopIfCancelled();
+  await progress.update({ step: 4, label: `Uploading ${formatLabel(format)}…`, total: undefined });
+
+  const up2 = await (client as any).files.uploadV2({
+    channel_id,
+    thread_ts: root_ts,
+    filename,
+    initial_comment: `${format === "zip" ? "🗜️" : "🌐"} ${title}`,
+    file,
+    content_type,
+    title
+  });
+
+  if (!up2?.ok) {
+    throw Object.assign(new Error(`Upload failed: ${up2?.error || "unknown_error"}`), {
+      data: { error: up2?.error }
+    });
+  }
+
+  // Cancelled while the upload was in flight: take the file back down.
+  const file_ids = uploadedFileIds(up2);
+  if (signal.aborted) {
+    for (const id of file_ids) {
+      await client.files
+        .delete({ file: id })
+        .catch((e: any) => console.error("files.delete error:", e?.data || e?.message || e));
+    }
+    throw new Error("cancelled");
+  }
+
+  const note =
+    (failed ? ` (${failed} ${failed === 1 ? "photo" : "photos"} failed)` : "") +
+    (leftOut
+      ? `\n⚠️ ${leftOut} ${leftOut === 1 ? "photo was" : "photos were"} left out: the ${formatLabel(format)} reached its ` +
+        `${Math.round(ARCHIVE_MAX_BYTES / (1024 * 1024))} MB limit. Use the filters to export the rest separately.`
+      : "");
+  const done = `✅ Done: ${formatLabel(format)} posted in this thread.${note}${filterNote(req.filters, tz)}${truncatedNote}`;
+  exportJobs.markPosted(jobId, { file_ids, text: done });
+  await progress.finish(done);
+}
+
+// =======================================================
+// SHORTCUT E: Channel report (every thread in a date range, or picked threads)
+// =======================================================
+const REPORT_MAX_DAYS = 92;
+
+// "2026-10-19" in `tz`, for datepicker defaults
+function isoDay(date: Date, tz: string): string {
+  const p = localParts(date, tz);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+// Start of a datepicker day in `tz`, epoch seconds; `days` moves it first.
+function dayStart(iso: string, tz: string, days = 0): number {
+  const [y, m, d] = iso.split("-").map(Number);
+  const day = addLocalDays(y, m, d, days);
+  return Math.floor(fromLocal(tz, day.year, day.month, day.day).getTime() / 1000);
+}
+
+// Ephemeral in the channel, else a DM (the app may not be in the channel).
+async function tellUser(client: any, channel_id: string, user: string, text: string): Promise<void> {
+  try {
+    await client.chat.postEphemeral({ channel: channel_id, user, text });
+  } catch {
+    try {
+      await client.chat.postMessage({ channel: user, text });
+    } catch (e: any) {
+      console.error("report notice error:", e?.data || e?.message || e);
+    }
+  }
+}
+
+bolt.shortcut("channel_report", async ({ ack, shortcut, client, logger }) => {
+  await ack();
+  try {
+    const { trigger_id, user } = shortcut as any;
+    // cached only: an API call here could outlive the trigger_id
+    const tz = cachedUserTimezone(user?.id || "", REPORT_TZ);
+    const today = isoDay(new Date(), tz);
+    const weekAgo = isoDay(new Date(Date.now() - 6 * 86400 * 1000), tz);
+    const outputs = [
+      { text: { type: "plain_text" as const, text: "PDF" }, value: "pdf" },
+      { text: { type: "plain_text" as const, text: "Canvas" }, value: "canvas" }
+    ];
+
+    await client.views.open({
+      trigger_id,
+      view: {
+        type: "modal",
+        callback_id: "channel_report_modal",
+        title: { type: "plain_text", text: "Channel report" },
+        submit: { type: "plain_text", text: "Create report" },
+        close: { type: "plain_text", text: "Cancel" },
+        blocks: [
+          {
+            type: "input",
+            block_id: "report_channel_block",
+            label: { type: "plain_text", text: "Channel" },
+            element: {
+              type: "conversations_select",
+              action_id: "report_channel_action",
+              default_to_current_conversation: true,
+              filter: { include: ["public", "private"], exclude_bot_users: true }
+            }
+          },
+          {
+            type: "input",
+            block_id: "report_from_block",
+            // not needed when threads are listed below
+            optional: true,
+            label: { type: "plain_text", text: "Threads started from" },
+            element: { type: "datepicker", action_id: "report_from_action", initial_date: weekAgo }
+          },
+          {
+            type: "input",
+            block_id: "report_to_block",
+            optional: true,
+            label: { type: "plain_text", text: "Through" },
+            hint: { type: "plain_text", text: "The dates are ignored when you list threads below." },
+            element: { type: "datepicker", action_id: "report_to_action", initial_date: today }
+          },
+          {
+            type: "input",
+            block_id: "report_threads_block",
+            optional: true,
+            label: { type: "plain_text", text: "Only these threads" },
+            hint: {
+              type: "plain_text",
+              text: "Links to threads in the channel above, one per line, whenever they started. Leave empty for every thread in the dates."
+            },
+            element: { type: "plain_text_input", action_id: "report_threads_action", multiline: true }
+          },
+          {
+            type: "input",
+            block_id: "report_output_block",
+            label: { type: "plain_text", text: "Output" },
+            element: {
+              type: "radio_buttons",
+              action_id: "report_output_action",
+              options: outputs,
+              initial_option: outputs[0]
+            }
+          },
+          {
+            type: "input",
+            block_id: "report_title_block",
+            optional: true,
+            label: { type: "plain_text", text: "Title" },
+            element: {
+              type: "plain_text_input",
+              action_id: "report_title_action",
+              placeholder: { type: "plain_text", text: "#channel — Oct 12 – Oct 19" }
+            }
+          },
+          {
+            type: "input",
+            block_id: "category_block",
+            label: { type: "plain_text", text: "Category" },
+            element: {
+              type: "static_select",
+              action_id: "category_action",
+              placeholder: { type: "plain_text", text: "Choose a category" },
+              options: categoryOptions()
+            }
+          },
+          ...translationBlocks(),
+          bylineBlock(),
+          ...filterBlocks()
+        ]
+      }
+    });
+  } catch (e: any) {
+    (logger || console).error("shortcut error:", e?.data || e?.message || e);
+  }
+});
+
+bolt.view("channel_report_modal", async ({ ack, view, client, body, logger }) => {
+  const values = view.state.values;
+  const channel_id = (values.report_channel_block?.report_channel_action?.selected_conversation || "") as string;
+  const from = (values.report_from_block?.report_from_action?.selected_date || "") as string;
+  const to = (values.report_to_block?.report_to_action?.selected_date || "") as string;
+  const errors: Record<string, string> = {};
+  if (!channel_id) errors.report_channel_block = "Choose a channel.";
+
+  // picked threads: each link must point into the chosen channel
+  const links = ((values.report_threads_block?.report_threads_action?.value || "") as string)
+    .split(/\s+/)
+    .filter(Boolean);
+  const picked: string[] = [];
+  for (const link of links) {
+    const ref = parsePermalink(link);
+    if (!ref || ref.channel_id !== channel_id) {
+      errors.report_threads_block = ref
+        ? "Every link must be to a thread in the channel above."
+        : `Not a Slack message link: ${link.slice(0, 60)}`;
+      break;
+    }
+    if (!picked.includes(ref.thread_ts)) picked.push(ref.thread_ts);
+  }
+
+  // the date range only matters when no threads are listed
+  if (!links.length) {
+    if (!from) errors.report_from_block = "Pick a start date, or list threads below.";
+    else if (!to) errors.report_to_block = "Pick an end date, or list threads below.";
+    else if (to < from) errors.report_to_block = "This is before the start date.";
+    else if ((Date.parse(to) - Date.parse(from)) / 86400000 >= REPORT_MAX_DAYS) {
+      errors.report_to_block = `A report covers at most ${REPORT_MAX_DAYS} days.`;
+    }
+  }
+
+  const filters = filtersFromState(values);
+  if ("errors" in filters || Object.keys(errors).length) {
+    await ack({ response_action: "errors", errors: { ...errors, ...("errors" in filters ? filters.errors : {}) } });
+    return;
+  }
+  await ack();
+
+  const user = (body as any)?.user?.id as string;
+  try {
+    if (!(await userCanSeeChannel(client, channel_id, user))) {
+      await client.chat.postMessage({ channel: user, text: "You can only make reports for channels you're in." });
+      return;
+    }
+    const tz = channelTimezone(channel_id);
+    const channel_name = await channelName(client, channel_id);
+
+    let threads = picked.sort((a, b) => Number(a) - Number(b));
+    let range: string;
+    if (threads.length) {
+      // listed threads: the range they actually span
+      const first = formatDay(threads[0], tz);
+      const last = formatDay(threads[threads.length - 1], tz);
+      range = first === last ? first : `${first} – ${last}`;
+    } else {
+      const oldest = dayStart(from, tz);
+      const latest = dayStart(to, tz, 1);
+      range = `${formatDay(new Date(oldest * 1000), tz)} – ${formatDay(new Date((latest - 1) * 1000), tz)}`;
+      const list = await listThreadRoots(client, channel_id, oldest, latest);
+      threads = list.roots;
+      if (list.truncated) await tellUser(client, channel_id, user, `⚠️ Report for <#${channel_id}>: ${list.reason}.`);
+    }
+    if (!threads.length) {
+      await tellUser(client, channel_id, user, `No threads were started in <#${channel_id}> from ${range}.`);
+      return;
+    }
+
+    const title = shortTitle(
+      ((values.report_title_block?.report_title_action?.value || "") as string).trim() || `#${channel_name} — ${range}`
+    );
+    const common = {
+      channel_id,
+      channel_name,
+      requester: ((body as any)?.user?.name || "") as string,
+      category: (values.category_block?.category_action?.selected_option?.value || "other") as string,
+      showByline: bylineFromState(values),
+      languages: languagesFromState(values),
+      filters,
+      threads,
+      title
+    };
+    if (values.report_output_block?.report_output_action?.selected_option?.value === "canvas") {
+      await runCanvasCollate(client, { ...common, thread_ts: "" }, logger);
+    } else {
+      await startExport(client, { ...common, format: "pdf", root_ts: "", layout: { ...DEFAULT_LAYOUT } });
+    }
+  } catch (e: any) {
+    (logger || console).error("channel report error:", e?.data || e?.message || e);
+    await tellUser(client, channel_id, user, `⚠️ Couldn't start the report for <#${channel_id}>: ${e?.data?.error || e?.message || e}`);
+  }
+});
+
+// =======================================================
+// SHORTCUT C: FOLLOW-UP REMINDER
+// (Clutter-reduced version: keep Jump back link, DROP the manual quoted line)
+// =======================================================
+
+// every user ID @mentioned in the text, in order, without repeats
+function mentionedUserIds(text: string): string[] {
+  const ids = Array.from((text || "").matchAll(/<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/gi), (m) => m[1].toUpperCase());
+  return Array.from(new Set(ids));
+}
+
+// Shortcut handler: open the reminder modal
+bolt.shortcut("follow_up_reminder", async ({ ack, shortcut, client }) => {
+  await ack();
+
+  const { channel, message_ts, thread_ts, message } = shortcut as any;
+  const channel_id = channel.id as string;
+  const origin_text = (message?.text || "").toString();
+  const thread_ts_value = thread_ts || ""; // "" = top-level message
+  const mentions = mentionedUserIds(origin_text).filter((u) => u !== (shortcut as any).user?.id);
+  const deliveryOptions: Array<{ text: { type: "plain_text"; text: string }; value: Delivery }> = [
+    { text: { type: "plain_text", text: "In the thread" }, value: "thread" },
+    { text: { type: "plain_text", text: "In the channel" }, value: "channel" },
+    { text: { type: "plain_text", text: "Private DM to me" }, value: "dm" }
+  ];
+
+  await client.views.open({
+    trigger_id: (shortcut as any).trigger_id,
+    view: {
+      type: "modal",
+      callback_id: "follow_up_submit",
+      private_metadata: JSON.stringify({
+        channel_id,
+        message_ts,
+        thread_ts: thread_ts_value,
+        origin_text
+      }),
+      title: { type: "plain_text", text: "Follow-up reminder" },
+      submit: { type: "plain_text", text: "Set reminder" },
+      close: { type: "plain_text", text: "Cancel" },
       blocks: [
         {
           type: "section",
@@ -900,10 +2456,6 @@ bolt.shortcut("follow_up_reminder", async ({ ack, shortcut, client }) => {
             type: "radio_buttons",
             action_id: "when_choice",
             options: [
-              {
-                text: { type: "plain_text", text: "1 minute (test)" },
-                value: "1min"
-              },
               {
                 text: { type: "plain_text", text: "30 minutes" },
                 value: "30m"
@@ -927,17 +2479,110 @@ bolt.shortcut("follow_up_reminder", async ({ ack, shortcut, client }) => {
               {
                 text: { type: "plain_text", text: "End of week (Fri 4:00 PM)" },
                 value: "eow"
+              },
+              {
+                text: { type: "plain_text", text: "Custom…" },
+                description: { type: "plain_text", text: "Pick the date and time below" },
+                value: "custom"
               }
             ],
             initial_option: {
-              text: { type: "plain_text", text: "1 minute (test)" },
-              value: "1min"
+              text: { type: "plain_text", text: "1 business day" },
+              value: "1bd"
             }
           }
+        },
+        {
+          type: "input",
+          block_id: "custom_date_block",
+          optional: true,
+          label: { type: "plain_text", text: "Custom date" },
+          element: {
+            type: "datepicker",
+            action_id: "custom_date",
+            placeholder: { type: "plain_text", text: "Pick a date" }
+          }
+        },
+        {
+          type: "input",
+          block_id: "custom_time_block",
+          optional: true,
+          label: { type: "plain_text", text: "Custom time (your timezone)" },
+          element: {
+            type: "timepicker",
+            action_id: "custom_time",
+            initial_time: `${String(workdayStart()).padStart(2, "0")}:00`
+          }
+        },
+        {
+          type: "input",
+          block_id: "delivery_block",
+          label: { type: "plain_text", text: "Remind me" },
+          element: {
+            type: "radio_buttons",
+            action_id: "delivery_action",
+            options: deliveryOptions,
+            initial_option: deliveryOptions[0]
+          }
+        },
+        {
+          type: "input",
+          block_id: "people_block",
+          optional: true,
+          label: { type: "plain_text", text: "Waiting on" },
+          hint: { type: "plain_text", text: "Everyone @mentioned in the message, to start with" },
+          element: {
+            type: "multi_users_select",
+            action_id: "people_action",
+            placeholder: { type: "plain_text", text: "Nobody in particular" },
+            ...(mentions.length ? { initial_users: mentions } : {})
+          }
+        },
+        {
+          type: "input",
+          block_id: "nudge_block",
+          optional: true,
+          label: { type: "plain_text", text: "Nudge" },
+          element: {
+            type: "checkboxes",
+            action_id: "nudge_action",
+            options: [
+              {
+                text: { type: "plain_text", text: "Also DM them a polite nudge" },
+                description: {
+                  type: "plain_text",
+                  text: "Sent with a link to the message at the same time as your reminder"
+                },
+                value: "nudge"
+              }
+            ]
+          }
+        },
+        {
+          type: "input",
+          block_id: "clear_block",
+          optional: true,
+          label: { type: "plain_text", text: "Cancel the reminder when" },
+          element: {
+            type: "checkboxes",
+            action_id: "clear_action",
+            options: [
+              {
+                text: { type: "plain_text", text: "Anyone replies" },
+                description: {
+                  type: "plain_text",
+                  text: "Otherwise only a reply from someone you're waiting on cancels it"
+                },
+                value: "anyone"
+              }
+            ]
+          }
         }
       ]
     }
   });
+  // look the timezone up while the modal is open, so the submit finds it cached
+  void userTimezone(client, (shortcut as any).user?.id || "", REPORT_TZ);
 });
 
 // Modal submit: schedule reminder in channel/thread + ephemeral confirm
@@ -945,136 +2590,231 @@ bolt.shortcut("follow_up_reminder", async ({ ack, shortcut, client }) => {
 // - Keeps Jump back link w/permalink
 // - DROPS our own manual copy of the message text
 //   (Slack will still insert its gray preview card so you still see the message.)
-bolt.view("follow_up_submit", async ({ ack, view, client, body }) => {
-  await ack();
+type ReminderTime = { post_at: number; rolled: boolean } | { errors: Record<string, string> };
+
+// When a reminder choice fires, in epoch seconds. Computed choices that land
+// on a weekend, holiday or after hours move to the next working morning; a
+// custom date/time is taken as picked.
+function reminderSendTime(choice: string, values: any, tz: string): ReminderTime {
+  const now = new Date();
+  const nowSec = Math.floor(now.getTime() / 1000);
+
+  if (choice === "custom") {
+    const date = values?.custom_date_block?.custom_date?.selected_date as string | undefined;
+    const time =
+      (values?.custom_time_block?.custom_time?.selected_time as string | undefined) ||
+      `${String(workdayStart()).padStart(2, "0")}:00`;
+    if (!date) return { errors: { custom_date_block: "Pick a date for the custom reminder." } };
+
+    const [y, m, d] = date.split("-").map(Number);
+    const [hh, mm] = time.split(":").map(Number);
+    const post_at = Math.floor(fromLocal(tz, y, m, d, hh, mm).getTime() / 1000);
+    if (post_at < nowSec + 60) return { errors: { custom_time_block: "That time has already passed." } };
+    // chat.scheduleMessage only accepts times up to 120 days out
+    if (post_at > nowSec + 120 * 24 * 60 * 60) {
+      return { errors: { custom_date_block: "Reminders can be set up to 120 days ahead." } };
+    }
+    return { post_at, rolled: false };
+  }
 
-  try {
-    const meta = JSON.parse(view.private_metadata || "{}");
-    const channel_id = meta.channel_id as string;
-    const message_ts = meta.message_ts as string;
-    const origin_text = (meta.origin_text || "") as string;
-    const thread_ts_val = (meta.thread_ts || "") as string; // "" if not in thread
+  let target: Date;
+  if (choice === "30m") target = new Date(now.getTime() + 30 * 60 * 1000);
+  else if (choice === "1h") target = new Date(now.getTime() + 60 * 60 * 1000);
+  else if (choice === "3h") target = new Date(now.getTime() + 3 * 60 * 60 * 1000);
+  else if (choice === "2bd") target = addBusinessDays(now, 2, tz);
+  else if (choice === "eow") target = endOfWorkWeek(now, 16, tz);
+  else target = addBusinessDays(now, 1, tz);
 
-    const requester_user_id = (body?.user?.id || "") as string;
-
-    const choice =
-      view.state.values?.when_block?.when_choice?.selected_option?.value ||
-      "1min";
-
-    // 1. compute when to send
-    let post_at: number;
-    const nowSec = Math.floor(Date.now() / 1000);
-
-    if (choice === "1min") {
-      post_at = nowSec + 60;
-    } else if (choice === "30m") {
-      post_at = nowSec + 30 * 60;
-    } else if (choice === "1h") {
-      post_at = nowSec + 60 * 60;
-    } else if (choice === "3h") {
-      post_at = nowSec + 3 * 60 * 60;
-    } else if (choice === "2bd" || choice === "eow" || choice === "1bd") {
-      const nowUTC = new Date();
-      let targetLocal: Date;
-      if (choice === "2bd") {
-        targetLocal = addBusinessDaysPST(nowUTC, 2);
-        targetLocal.setHours(
-          nowUTC.getHours(),
-          nowUTC.getMinutes(),
-          0,
-          0
-        );
-      } else if (choice === "eow") {
-        targetLocal = upcomingFridayAt4pmPST(nowUTC);
-      } else {
-        // 1bd
-        targetLocal = addBusinessDaysPST(nowUTC, 1);
-        targetLocal.setHours(
-          nowUTC.getHours(),
-          nowUTC.getMinutes(),
-          0,
-          0
-        );
-      }
-      post_at = Math.floor(targetLocal.getTime() / 1000);
-      if (post_at < nowSec + 60) {
-        post_at = nowSec + 60;
-      }
-    } else {
-      post_at = nowSec + 60;
-    }
+  const { at, rolled } = nextWorkingTime(target, tz);
+  return { post_at: Math.max(Math.floor(at.getTime() / 1000), nowSec + 60), rolled };
+}
 
-    // 2. permalink to original message
-    let permalink: string | null = null;
-    try {
-      const pl = await client.chat.getPermalink({
-        channel: channel_id,
-        message_ts
-      });
-      if ((pl as any).ok) {
-        permalink = (pl as any).permalink as string;
-      }
-    } catch {
-      /* ignore */
+type FollowUp = {
+  channel_id: string;
+  message_ts: string;
+  // thread root when the message is a reply, else ""
+  thread_ts: string;
+  requester: string;
+  // reminder choice ("1bd", "eow", …), for the confirmation wording
+  choice: string;
+  post_at: number;
+  rolled: boolean;
+  tz: string;
+  mentioned: string[];
+  delivery: Delivery;
+  nudge: boolean;
+  clearOnAnyone: boolean;
+  // /collate remind replies where the command was typed, not in the thread
+  fromCommand?: boolean;
+};
+
+const REMINDER_CHOICES: Record<string, string> = {
+  "30m": "in 30 minutes",
+  "1h": "in 1 hour",
+  "3h": "in 3 hours",
+  "1bd": "in 1 business day",
+  "2bd": "in 2 business days",
+  "eow": "at end of week",
+  "custom": "at the time you picked"
+};
+
+// own keys only, so "constructor" and friends aren't choices
+function isReminderChoice(choice: string): boolean {
+  return Object.prototype.hasOwnProperty.call(REMINDER_CHOICES, choice);
+}
+
+// Schedule a follow-up and return the confirmation to show the requester.
+// Shared by the reminder modal and /collate remind.
+async function scheduleFollowUp(client: any, f: FollowUp): Promise<string> {
+  const { channel_id, message_ts, post_at, mentioned, delivery, nudge, clearOnAnyone } = f;
+
+  // permalink to original message
+  let permalink: string | null = null;
+  try {
+    const pl = await client.chat.getPermalink({
+      channel: channel_id,
+      message_ts
+    });
+    if ((pl as any).ok) {
+      permalink = (pl as any).permalink as string;
     }
+  } catch {
+    /* ignore */
+  }
 
-    // 3. who did they @mention?
-    const mentioned = firstMentionUserId(origin_text);
+  // Build the text that will be scheduled later.
+  //    DO NOT include our own `> original_text`
+  //    DO include Jump back link (Slack will still unfurl a gray card with the message)
+  const people = mentioned.map((u) => `<@${u}>`).join(", ");
+  const futureLines: string[] = [];
+  futureLines.push(
+    `⏰ <@${f.requester}>, follow-up check${people ? ` on ${people}` : ""}.`
+  );
 
-    // 4. Build the text that will be scheduled later.
-    //    DO NOT include our own `> original_text`
-    //    DO include Jump back link (Slack will still unfurl a gray card with the message)
-    const futureLines: string[] = [];
+  if (permalink) {
+    // Slack link format <url|label>
     futureLines.push(
-      `⏰ <@${requester_user_id}>, follow-up check${
-        mentioned ? ` on <@${mentioned}>` : ""
-      }.`
+      `Jump back: <${permalink}|original message>`
     );
+  }
 
-    if (permalink) {
-      // Slack link format <url|label>
-      futureLines.push(
-        `Jump back: <${permalink}|original message>`
-      );
+  futureLines.push(
+    "_If they've already handled it, you can ignore this._"
+  );
+
+  // Schedule it (thread, channel or DM) and remember it, so a reply
+  // can cancel it (see the message listener below).
+  await scheduleReminder(client, {
+    channel_id,
+    message_ts,
+    thread_ts: f.thread_ts,
+    requester: f.requester,
+    mentioned,
+    clear_on: clearOnAnyone || !mentioned.length ? "anyone" : "mentioned",
+    delivery,
+    post_at,
+    text: futureLines.join("\n"),
+    permalink: permalink || "",
+    nudge: nudge && mentioned.length > 0
+  });
+
+  const humanReadable = (isReminderChoice(f.choice) && REMINDER_CHOICES[f.choice]) || "soon";
+  return (
+    `⏰ I’ll remind you ${f.rolled ? "on the next working morning" : humanReadable} ` +
+    `(${formatLocal(new Date(post_at * 1000), f.tz)}) ` +
+    (delivery === "dm"
+      ? "by DM"
+      : delivery === "channel"
+      ? f.fromCommand
+        ? `in <#${channel_id}>`
+        : "in the channel"
+      : f.fromCommand
+      ? `in the thread in <#${channel_id}>`
+      : "in this thread") +
+    (clearOnAnyone || !mentioned.length
+      ? " unless someone replies first."
+      : ` unless ${people} ${mentioned.length === 1 ? "replies" : "reply"} first.`) +
+    (nudge && mentioned.length ? ` I’ll nudge ${people} at the same time.` : "")
+  );
+}
+
+bolt.view("follow_up_submit", async ({ ack, view, client, body }) => {
+  const requester_user_id = (body?.user?.id || "") as string;
+  const choice = (view.state.values?.when_block?.when_choice?.selected_option?.value || "1bd") as string;
+
+  // 1. compute when to send, in the requester's own timezone (business days,
+  //    holidays and "Fri 4 PM" are local to them, DST included). Checked
+  //    before ack() so a bad custom date can be shown on the modal, with the
+  //    timezone the shortcut already looked up (no API call before the ack).
+  let tz = cachedUserTimezone(requester_user_id, REPORT_TZ);
+  let when: ReminderTime;
+  try {
+    when = reminderSendTime(choice, view.state.values, tz);
+  } catch (e: any) {
+    console.error("follow_up_submit time error:", e?.data || e?.message || e);
+    await ack();
+    return;
+  }
+  if ("errors" in when) {
+    await ack({ response_action: "errors", errors: when.errors });
+    return;
+  }
+  await ack();
+
+  try {
+    // the profile wasn't cached: redo the time in the real timezone
+    const profileTz = await userTimezone(client, requester_user_id, REPORT_TZ);
+    if (profileTz !== tz) {
+      const redone = reminderSendTime(choice, view.state.values, profileTz);
+      if (!("errors" in redone)) {
+        tz = profileTz;
+        when = redone;
+      }
     }
+  } catch (e: any) {
+    console.error("follow_up_submit timezone error:", e?.data || e?.message || e);
+  }
+  const { post_at, rolled } = when;
 
-    futureLines.push(
-      "_If they've already handled it, you can ignore this._"
+  try {
+    const meta = JSON.parse(view.private_metadata || "{}");
+    const channel_id = meta.channel_id as string;
+    const message_ts = meta.message_ts as string;
+    const thread_ts_val = (meta.thread_ts || "") as string; // "" if not in thread
+
+    const values = view.state.values;
+    const clearOnAnyone = (values?.clear_block?.clear_action?.selected_options || []).some(
+      (o: any) => o.value === "anyone"
+    );
+    const delivery = (values?.delivery_block?.delivery_action?.selected_option?.value || "thread") as Delivery;
+    // 2. who are we waiting on? (picker starts with every @mention in the message)
+    const mentioned = ((values?.people_block?.people_action?.selected_users || []) as string[]).filter(
+      (u) => u !== requester_user_id
     );
+    const nudge = (values?.nudge_block?.nudge_action?.selected_options || []).length > 0;
 
-    // 5. Schedule message in SAME CHANNEL.
-    const scheduleArgs: any = {
-      channel: channel_id,
+    const confirmation = await scheduleFollowUp(client, {
+      channel_id,
+      message_ts,
+      thread_ts: thread_ts_val,
+      requester: requester_user_id,
+      choice,
       post_at,
-      text: futureLines.join("\n"),
-      unfurl_links: false,
-      unfurl_media: false
-    };
-    if (thread_ts_val) {
-      scheduleArgs.thread_ts = message_ts;
-    }
-
-    await client.chat.scheduleMessage(scheduleArgs);
-
-    // 6. Ephemeral confirmation right now
-    const humanReadableMap: Record<string, string> = {
-      "1min": "in ~1 minute",
-      "30m": "in 30 minutes",
-      "1h": "in 1 hour",
-      "3h": "in 3 hours",
-      "1bd": "in 1 business day",
-      "2bd": "in 2 business days",
-      "eow": "at end of week (Fri 4pm)"
-    };
-    const humanReadable =
-      humanReadableMap[choice] || "soon";
+      rolled,
+      tz,
+      mentioned,
+      delivery,
+      nudge,
+      clearOnAnyone
+    });
 
+    // 3. Ephemeral confirmation right now
     let ephemeralWorked = false;
     try {
       const ephemeralArgs: any = {
         channel: channel_id,
         user: requester_user_id,
-        text: `⏰ I’ll remind you ${humanReadable} in this thread.`
+        text: confirmation
       };
       if (thread_ts_val) {
         ephemeralArgs.thread_ts = message_ts;
@@ -1098,21 +2838,224 @@ bolt.view("follow_up_submit", async ({ ack, view, client, body }) => {
       choice,
       "ephemeralWorked=",
       ephemeralWorked,
-      "thread_ts_val=",
-      thread_ts_val ? "thread" : "channel_top_level"
+      "delivery=",
+      delivery,
+      "nudges=",
+      nudge ? mentioned.length : 0
     );
   } catch (e: any) {
     console.error("follow_up_submit error:", e?.data || e?.message || e);
   }
 });
 
+// A reply that answers a pending follow-up deletes the scheduled reminder
+// and tells the requester, quietly (ephemeral), that it was cleared.
+async function clearReminder(client: any, r: Reminder, replier: string): Promise<void> {
+  try {
+    await cancelReminder(client, r);
+  } catch (e: any) {
+    console.error("deleteScheduledMessage error:", e?.data || e?.message || e);
+    return;
+  }
+
+  try {
+    await client.chat.postEphemeral({
+      channel: r.channel_id,
+      user: r.requester,
+      ...(r.thread_ts ? { thread_ts: r.thread_ts } : {}),
+      text: `✅ <@${replier}> replied, so I cleared your follow-up reminder.`
+    });
+  } catch (e: any) {
+    console.error("reminder cleared note failed:", e?.data || e?.message || e);
+  }
+}
+
+bolt.event("message", async ({ event, client }) => {
+  try {
+    const msg = event as any;
+    for (const r of remindersIn(msg.channel)) {
+      if (replyClears(r, msg)) await clearReminder(client, r, msg.user);
+    }
+  } catch (e: any) {
+    console.error("message event error:", e?.data || e?.message || e);
+  }
+});
+
+// ---------- App Home: pending reminders ----------
+
+// IDs of everything this app still has scheduled; null if Slack won't say.
+async function scheduledMessageIds(client: any): Promise<Set<string> | null> {
+  try {
+    const ids = new Set<string>();
+    let cursor: string | undefined;
+    do {
+      const res = (await client.chat.scheduledMessages.list({ limit: 100, ...(cursor ? { cursor } : {}) })) as any;
+      for (const m of res?.scheduled_messages || []) ids.add(m.id);
+      cursor = res?.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+    return ids;
+  } catch (e: any) {
+    console.error("scheduledMessages.list error:", e?.data || e?.message || e);
+    return null;
+  }
+}
+
+async function publishHome(client: any, user_id: string): Promise<void> {
+  // drop records whose message Slack no longer has (sent, or deleted elsewhere)
+  const live = await scheduledMessageIds(client);
+  const mine = remindersFor(user_id).filter((r) => {
+    if (!live || live.has(r.scheduled_message_id)) return true;
+    forgetReminder(r.scheduled_message_id);
+    return false;
+  });
+  const tz = await userTimezone(client, user_id, REPORT_TZ);
+  await client.views.publish({ user_id, view: homeView(mine, tz) });
+}
+
+// The reminder behind a Home button, if it belongs to whoever pressed it.
+function ownReminder(body: any): Reminder | undefined {
+  const r = getReminder(body?.actions?.[0]?.value || "");
+  return r && r.requester === body?.user?.id ? r : undefined;
+}
+
+bolt.event("app_home_opened", async ({ event, client }) => {
+  if ((event as any).tab !== "home") return;
+  try {
+    await publishHome(client, (event as any).user);
+  } catch (e: any) {
+    console.error("app_home_opened error:", e?.data || e?.message || e);
+  }
+});
+
+bolt.action("reminder_snooze", async ({ ack, body, client }) => {
+  await ack();
+  try {
+    const r = ownReminder(body);
+    if (r) {
+      const tz = await userTimezone(client, r.requester, REPORT_TZ);
+      // one working day later than it was due, on working hours
+      const { at } = nextWorkingTime(addBusinessDays(new Date(r.post_at * 1000), 1, tz), tz);
+      await moveReminder(client, r, Math.floor(at.getTime() / 1000));
+    }
+    await publishHome(client, (body as any).user.id);
+  } catch (e: any) {
+    console.error("reminder_snooze error:", e?.data || e?.message || e);
+  }
+});
+
+bolt.action("reminder_cancel", async ({ ack, body, client }) => {
+  await ack();
+  try {
+    const r = ownReminder(body);
+    if (r) await cancelReminder(client, r);
+    await publishHome(client, (body as any).user.id);
+  } catch (e: any) {
+    console.error("reminder_cancel error:", e?.data || e?.message || e);
+  }
+});
+
+bolt.action("reminder_reschedule", async ({ ack, body, client }) => {
+  await ack();
+  try {
+    const r = ownReminder(body);
+    if (!r) return;
+    // cached by publishHome; an API call here could outlive the trigger_id
+    const tz = cachedUserTimezone(r.requester, REPORT_TZ);
+    const due = new Date(r.post_at * 1000);
+    const local = localParts(due, tz);
+    const pad = (n: number) => String(n).padStart(2, "0");
+
+    await client.views.open({
+      trigger_id: (body as any).trigger_id,
+      view: {
+        type: "modal",
+        callback_id: "reminder_reschedule_modal",
+        private_metadata: r.scheduled_message_id,
+        title: { type: "plain_text", text: "Reschedule reminder" },
+        submit: { type: "plain_text", text: "Reschedule" },
+        close: { type: "plain_text", text: "Cancel" },
+        blocks: [
+          {
+            type: "section",
+            text: { type: "mrkdwn", text: `Currently due *${formatLocal(due, tz)}*.` }
+          },
+          {
+            type: "input",
+            block_id: "custom_date_block",
+            label: { type: "plain_text", text: "Date" },
+            element: { type: "datepicker", action_id: "custom_date", initial_date: `${local.year}-${pad(local.month)}-${pad(local.day)}` }
+          },
+          {
+            type: "input",
+            block_id: "custom_time_block",
+            label: { type: "plain_text", text: "Time (your timezone)" },
+            element: { type: "timepicker", action_id: "custom_time", initial_time: `${pad(local.hour)}:${pad(local.minute)}` }
+          }
+        ]
+      }
+    });
+  } catch (e: any) {
+    console.error("reminder_reschedule error:", e?.data || e?.message || e);
+  }
+});
+
+bolt.view("reminder_reschedule_modal", async ({ ack, view, body, client }) => {
+  const user_id = (body as any).user.id as string;
+  const r = getReminder(view.private_metadata || "");
+  if (!r || r.requester !== user_id) {
+    await ack({
+      response_action: "errors",
+      errors: { custom_date_block: "This reminder has already been sent or cancelled." }
+    });
+    return;
+  }
+
+  // same timezone the modal was opened with; no API call before the ack
+  const tz = cachedUserTimezone(user_id, REPORT_TZ);
+  let when: ReminderTime;
+  try {
+    when = reminderSendTime("custom", view.state.values, tz);
+  } catch (e: any) {
+    console.error("reminder_reschedule_modal error:", e?.data || e?.message || e);
+    await ack();
+    return;
+  }
+  if ("errors" in when) {
+    await ack({ response_action: "errors", errors: when.errors });
+    return;
+  }
+  await ack();
+
+  try {
+    // the profile wasn't cached: the picked date and time are in the real timezone
+    const profileTz = await userTimezone(client, user_id, REPORT_TZ);
+    if (profileTz !== tz) {
+      const redone = reminderSendTime("custom", view.state.values, profileTz);
+      if (!("errors" in redone)) when = redone;
+    }
+    await moveReminder(client, r, when.post_at);
+    await publishHome(client, user_id);
+  } catch (e: any) {
+    console.error("reminder reschedule error:", e?.data || e?.message || e);
+  }
+});
+
 // -------------------------------------------------------
 (async () => {
   await bolt.start(process.env.PORT || 3000);
   console.log(
-    "⚡ Collate-to-Canvas running | Spanish",
-    ADD_SPANISH ? "ON" : "OFF",
-    "| Key",
-    DEEPL_API_KEY ? "present" : "absent"
+    "⚡ Collate-to-Canvas running | Translation",
+    translationProvider()?.name || "OFF"
   );
+
+  const resumed = exportJobs.resume();
+  if (resumed) console.log(`Resuming ${resumed} unfinished PDF export(s)`);
+
+  if (translationProvider()?.name === "deepl" && process.env.GLOSSARY_SYNC !== "0") {
+    try {
+      for (const line of await syncGlossaries()) console.log("glossary:", line);
+    } catch (e: any) {
+      console.error("glossary sync error:", e?.message || e);
+    }
+  }
 })();
@@ -0,0 +1,256 @@
+import crypto from "crypto";
+import { openStore } from "./store";
+import { retryAfterSeconds } from "./thread";
+
+/**
+ * Durable background jobs (PDF exports).
+ *
+ * A job is written to DATA_DIR before any work starts, then a single worker
+ * runs jobs one at a time (exports are memory-heavy and Render gives us one
+ * CPU). Transient Slack/DeepL/network failures are retried with exponential
+ * backoff; anything else fails the job straight away. Jobs that were queued
+ * or mid-run when the process stopped are picked up again by resume().
+ * cancel() drops a queued job or aborts the running one through its
+ * AbortSignal; the handler is expected to stop at the next check.
+ * A handler whose output is already out (an uploaded file) records that with
+ * markPosted(), so a retry or resume after that only reports the outcome.
+ *
+ * Optional ENV:
+ * - JOB_MAX_ATTEMPTS=4         -> tries per job before it's marked failed
+ */
+
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export type Job<T> = {
+  id: string;
+  status: JobStatus;
+  payload: T;
+  // where the job reports progress
+  channel_id: string;
+  progress_ts: string;
+  attempts: number;
+  last_error?: string;
+  // epoch ms; queued jobs wait until then (backoff)
+  next_run_at: number;
+  // set by markPosted(): what was posted and the final status line
+  posted?: JobPosted;
+  created_at: string;
+  updated_at: string;
+};
+
+export type JobPosted = { file_ids: string[]; text: string };
+
+export type JobHandlers<T> = {
+  run(job: Job<T>, signal: AbortSignal): Promise<void>;
+  // a transient failure; the job runs again after `delayMs`
+  onRetry?(job: Job<T>, err: any, delayMs: number): Promise<void>;
+  // out of attempts or a permanent error
+  onFailed?(job: Job<T>, err: any): Promise<void>;
+  // the running job stopped after cancel()
+  onCancelled?(job: Job<T>): Promise<void>;
+};
+
+export type JobQueue<T> = {
+  enqueue(payload: T, where: { channel_id: string; progress_ts: string }): Job<T>;
+  // put a failed job back in the queue with fresh attempts
+  retry(id: string): Job<T> | undefined;
+  get(id: string): Job<T> | undefined;
+  // "cancelled" for a queued job, "cancelling" while the running one winds down
+  cancel(id: string): "cancelled" | "cancelling" | undefined;
+  // requeue jobs interrupted by a restart and start the worker
+  resume(): number;
+  // the job's output is posted; later attempts must not post it again
+  markPosted(id: string, posted: JobPosted): void;
+};
+
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 5 * 60_000;
+const KEEP_FINISHED_MS = 7 * 24 * 60 * 60 * 1000;
+
+const TRANSIENT_SLACK_ERRORS = new Set([
+  "ratelimited",
+  "internal_error",
+  "fatal_error",
+  "service_unavailable",
+  "request_timeout"
+]);
+
+const TRANSIENT_NET_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "EPIPE",
+  "slack_webapi_request_error"
+]);
+
+// Worth another try later? (rate limits, Slack/DeepL 5xx, network drops)
+export function isTransient(e: any): boolean {
+  if (!e) return false;
+  if (retryAfterSeconds(e) !== null) return true;
+  if (TRANSIENT_NET_CODES.has(e.code) || TRANSIENT_NET_CODES.has(e.original?.code)) return true;
+  if (TRANSIENT_SLACK_ERRORS.has(e.data?.error)) return true;
+  const status = Number(e.status ?? e.statusCode ?? e.data?.status);
+  return status === 429 || (status >= 500 && status < 600);
+}
+
+function maxAttempts(): number {
+  const n = Number(process.env.JOB_MAX_ATTEMPTS);
+  return Number.isFinite(n) && n >= 1 ? Math.floor(n) : 4;
+}
+
+function errorText(e: any): string {
+  return String(e?.data?.error || e?.message || e || "unknown error").slice(0, 500);
+}
+
+export function createJobQueue<T>(name: string, handlers: JobHandlers<T>): JobQueue<T> {
+  const store = openStore<Job<T>>(name);
+  let working = false;
+  let timer: NodeJS.Timeout | null = null;
+  // abort handle of the job currently running, if any
+  let current: { id: string; controller: AbortController } | null = null;
+
+  function save(job: Job<T>): Job<T> {
+    job.updated_at = new Date().toISOString();
+    store.set(job.id, job);
+    return job;
+  }
+
+  function nextDue(): Job<T> | undefined {
+    return store
+      .entries()
+      .map(([, j]) => j)
+      .filter((j) => j.status === "queued")
+      .sort((a, b) => a.next_run_at - b.next_run_at || a.created_at.localeCompare(b.created_at))[0];
+  }
+
+  function schedule() {
+    if (working) return;
+    const next = nextDue();
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (!next) return;
+    timer = setTimeout(() => void drain(), Math.max(0, next.next_run_at - Date.now()));
+  }
+
+  async function runOne(job: Job<T>) {
+    job.status = "running";
+    job.attempts += 1;
+    save(job);
+    const controller = new AbortController();
+    current = { id: job.id, controller };
+    try {
+      await handlers.run(job, controller.signal);
+      job.status = "done";
+      job.last_error = undefined;
+      save(job);
+    } catch (e: any) {
+      if (controller.signal.aborted) {
+        job.status = "cancelled";
+        save(job);
+        await handlers.onCancelled?.(job).catch((err: any) =>
+          console.error(`${name} onCancelled error:`, err?.data || err?.message || err)
+        );
+        return;
+      }
+      job.last_error = errorText(e);
+      console.error(`${name} job ${job.id} error (attempt ${job.attempts}):`, e?.data || e?.message || e);
+
+      if (isTransient(e) && job.attempts < maxAttempts()) {
+        const hinted = (retryAfterSeconds(e) ?? 0) * 1000;
+        const delay = Math.min(MAX_DELAY_MS, Math.max(hinted, BASE_DELAY_MS * 2 ** (job.attempts - 1)));
+        job.status = "queued";
+        job.next_run_at = Date.now() + delay;
+        save(job);
+        await handlers.onRetry?.(job, e, delay).catch(() => undefined);
+      } else {
+        job.status = "failed";
+        save(job);
+        await handlers.onFailed?.(job, e).catch((err: any) =>
+          console.error(`${name} onFailed error:`, err?.data || err?.message || err)
+        );
+      }
+    } finally {
+      current = null;
+    }
+  }
+
+  async function drain() {
+    if (working) return;
+    working = true;
+    try {
+      for (let job = nextDue(); job && job.next_run_at <= Date.now(); job = nextDue()) {
+        await runOne(job);
+      }
+    } finally {
+      working = false;
+      schedule();
+    }
+  }
+
+  return {
+    enqueue(payload, where) {
+      const now = new Date().toISOString();
+      const job = save({
+        id: crypto.randomUUID(),
+        status: "queued",
+        payload,
+        channel_id: where.channel_id,
+        progress_ts: where.progress_ts,
+        attempts: 0,
+        next_run_at: Date.now(),
+        created_at: now,
+        updated_at: now
+      });
+      void drain();
+      return job;
+    },
+    retry(id) {
+      const job = store.get(id);
+      if (!job || job.status !== "failed") return undefined;
+      job.status = "queued";
+      job.attempts = 0;
+      job.next_run_at = Date.now();
+      save(job);
+      void drain();
+      return job;
+    },
+    get: (id) => store.get(id),
+    markPosted(id, posted) {
+      const job = store.get(id);
+      if (!job) return;
+      job.posted = posted;
+      save(job);
+    },
+    cancel(id) {
+      if (current?.id === id) {
+        current.controller.abort();
+        return "cancelling";
+      }
+      const job = store.get(id);
+      if (!job || job.status !== "queued") return undefined;
+      job.status = "cancelled";
+      save(job);
+      schedule();
+      return "cancelled";
+    },
+    resume() {
+      let count = 0;
+      for (const [id, job] of store.entries()) {
+        const age = Date.now() - Date.parse(job.updated_at);
+        const finished = job.status === "done" || job.status === "failed" || job.status === "cancelled";
+        if (finished && age > KEEP_FINISHED_MS) {
+          store.delete(id);
+        } else if (job.status === "running" || job.status === "queued") {
+          // a "running" job here was cut off by the restart; run it again
+          job.status = "queued";
+          save(job);
+          count++;
+        }
+      }
+      void drain();
+      return count;
+    }
+  };
+}
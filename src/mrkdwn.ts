@@ -0,0 +1,184 @@
+import { userDisplayName, channelName } from "./directory";
+
+/**
+ * Slack mrkdwn -> styled runs, shared by the Canvas, PDF and HTML outputs.
+ *
+ * Handles *bold*, _italic_, ~strike~, `code`, ```code blocks```, user/channel
+ * mentions (resolved to names), special mentions (@here, user groups, dates),
+ * <url|label> links and the &amp;/&lt;/&gt; escapes Slack puts in message text.
+ */
+
+export type Run = {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  url?: string;
+};
+
+type Style = Omit<Run, "text" | "url">;
+
+// Angle-bracket entities are swapped for these markers before formatting is
+// parsed, so a link inside *bold* keeps both its label and the bold.
+const MARK_OPEN = "\uE000";
+const MARK_CLOSE = "\uE001";
+const MARK_RE = /\uE000(\d+)\uE001/g;
+
+type Entity = { text: string; url?: string };
+
+function decodeEntities(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+async function resolveEntity(client: any, inner: string): Promise<Entity> {
+  const bar = inner.indexOf("|");
+  const target = bar >= 0 ? inner.slice(0, bar) : inner;
+  const label = bar >= 0 ? inner.slice(bar + 1) : "";
+
+  if (target.startsWith("@")) {
+    const id = target.slice(1);
+    return { text: `@${label || (await userDisplayName(client, id))}` };
+  }
+  if (target.startsWith("#")) {
+    const id = target.slice(1);
+    return { text: `#${label || (await channelName(client, id))}` };
+  }
+  if (target.startsWith("!")) {
+    // <!here>, <!channel>, <!subteam^S123|@crew>, <!date^1700000000^{date}|Nov 14>
+    if (label) return { text: label };
+    const kind = target.slice(1).split("^")[0];
+    return { text: kind === "subteam" ? "@group" : `@${kind}` };
+  }
+  const url = decodeEntities(target);
+  const text = label || url.replace(/^mailto:/, "");
+  return { text: decodeEntities(text), url };
+}
+
+// Opening marker: at start or after whitespace/punctuation, followed by non-space.
+// Closing marker: after non-space, not followed by a word character.
+const STYLE_RE =
+  /```([\s\S]+?)```|`([^`\n]+)`|(^|[\s([{"'>.,;:!?-])([*_~])(?=\S)([^\n]*?\S)\4(?![\w*_~])/;
+
+function parseStyles(text: string, style: Style, out: Array<{ text: string; style: Style }>) {
+  let rest = text;
+  while (rest) {
+    const m = STYLE_RE.exec(rest);
+    if (!m) {
+      out.push({ text: rest, style });
+      return;
+    }
+    const before = rest.slice(0, m.index) + (m[3] || "");
+    if (before) out.push({ text: before, style });
+
+    if (m[1] !== undefined) {
+      out.push({ text: m[1].replace(/^\n/, ""), style: { ...style, code: true } });
+    } else if (m[2] !== undefined) {
+      out.push({ text: m[2], style: { ...style, code: true } });
+    } else {
+      const key = m[4] === "*" ? "bold" : m[4] === "_" ? "italic" : "strike";
+      parseStyles(m[5], { ...style, [key]: true }, out);
+    }
+    rest = rest.slice(m.index + m[0].length);
+  }
+}
+
+// Parse Slack message text into styled runs, resolving mentions to names.
+export async function parseMrkdwn(client: any, text: string): Promise<Run[]> {
+  const entities: Entity[] = [];
+  const raw = (text || "").replace(/\r/g, "");
+
+  const parts = raw.split(/<([^<>\n]+)>/);
+  let marked = "";
+  for (let i = 0; i < parts.length; i++) {
+    if (i % 2 === 0) {
+      marked += parts[i];
+      continue;
+    }
+    entities.push(await resolveEntity(client, parts[i]));
+    marked += `${MARK_OPEN}${entities.length - 1}${MARK_CLOSE}`;
+  }
+
+  const styled: Array<{ text: string; style: Style }> = [];
+  parseStyles(marked, {}, styled);
+
+  const runs: Run[] = [];
+  for (const s of styled) {
+    let last = 0;
+    for (const m of s.text.matchAll(MARK_RE)) {
+      const before = s.text.slice(last, m.index);
+      if (before) runs.push({ text: decodeEntities(before), ...s.style });
+      const ent = entities[Number(m[1])];
+      if (ent) runs.push({ text: ent.text, ...(ent.url ? { url: ent.url } : {}), ...s.style });
+      last = (m.index as number) + m[0].length;
+    }
+    const tail = s.text.slice(last);
+    if (tail) runs.push({ text: decodeEntities(tail), ...s.style });
+  }
+  return runs;
+}
+
+export function runsToPlain(runs: Run[]): string {
+  return runs.map((r) => r.text).join("");
+}
+
+// Markdown for Canvas documents.
+export function runsToMarkdown(runs: Run[]): string {
+  return runs
+    .map((r) => {
+      if (r.code) {
+        return r.text.includes("\n") ? `\n\`\`\`\n${r.text}\n\`\`\`\n` : `\`${r.text}\``;
+      }
+      // keep surrounding spaces outside the markers or markdown won't apply them
+      const lead = r.text.match(/^\s*/)?.[0] || "";
+      const trail = r.text.match(/\s*$/)?.[0] || "";
+      let t = r.text.trim();
+      if (!t) return r.text;
+      if (r.url) t = `[${t}](${r.url})`;
+      if (r.strike) t = `~~${t}~~`;
+      if (r.italic) t = `_${t}_`;
+      if (r.bold) t = `**${t}**`;
+      return lead + t + trail;
+    })
+    .join("");
+}
+
+// Plain text (display names, file names) inside Canvas markdown: a "_" or "*"
+// in a name must not open or close the markup around it.
+export function escapeMarkdown(s: string): string {
+  return (s || "").replace(/([\\`*_~\[\]])/g, "\\$1");
+}
+
+export function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// HTML for the standalone export; line breaks kept, links open in a new tab.
+export function runsToHtml(runs: Run[]): string {
+  return runs
+    .map((r) => {
+      if (r.code) {
+        return r.text.includes("\n") ? `<pre>${escapeHtml(r.text)}</pre>` : `<code>${escapeHtml(r.text)}</code>`;
+      }
+      let t = escapeHtml(r.text).replace(/\n/g, "<br>");
+      // only web and mail links; anything else stays plain text
+      if (r.url && /^(https?:|mailto:)/i.test(r.url)) {
+        t = `<a href="${escapeHtml(r.url)}" target="_blank" rel="noopener">${t}</a>`;
+      }
+      if (r.strike) t = `<s>${t}</s>`;
+      if (r.italic) t = `<em>${t}</em>`;
+      if (r.bold) t = `<strong>${t}</strong>`;
+      return t;
+    })
+    .join("");
+}
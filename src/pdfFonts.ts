@@ -0,0 +1,144 @@
+import fs from "fs";
+import fontkit from "@pdf-lib/fontkit";
+import { PDFDocument, PDFFont, StandardFonts } from "pdf-lib";
+
+/**
+ * Unicode-capable fonts for PDF export.
+ *
+ * The standard Helvetica fonts only cover WinAnsi, so a caption with an emoji
+ * or a non-Latin name made drawText throw mid-export. We embed DejaVu Sans
+ * (bundled via the dejavu-fonts-ttf package) through fontkit instead, and run
+ * every string through fitToFont() so anything the font still can't draw is
+ * swapped for a visible placeholder, one glyph at a time.
+ *
+ * Optional ENV:
+ * - PDF_FONT_PATH=...        -> regular TTF/OTF to use instead of DejaVu Sans
+ * - PDF_FONT_BOLD_PATH=...   -> bold TTF/OTF to use instead of DejaVu Sans Bold
+ */
+
+export type PdfFonts = {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+  mono: PDFFont;
+  // false when we had to fall back to Helvetica (WinAnsi only)
+  unicode: boolean;
+};
+
+const PLACEHOLDER = "\u25A1"; // white square
+const FALLBACK_PLACEHOLDER = "?";
+
+// Zero-width joiners, variation selectors and skin-tone modifiers carry no
+// glyph of their own; drop them rather than printing a placeholder for each.
+const IGNORABLE = /[\u200B-\u200D\u2060\uFE00-\uFE0F\u{1F3FB}-\u{1F3FF}\u{E0020}-\u{E007F}]/gu;
+
+// Characters with a sensible plain-text stand-in when the font lacks them.
+const REPLACEMENTS: Record<string, string> = {
+  "\t": " ",
+  "\u00A0": " ",
+  "\u2018": "'",
+  "\u2019": "'",
+  "\u201C": '"',
+  "\u201D": '"',
+  "\u2013": "-",
+  "\u2014": "-",
+  "\u2026": "...",
+  "\u2022": "*",
+  "\u2713": "v",
+  "\u2714": "v",
+  "\u274C": "x"
+};
+
+function fontFile(envName: string, bundled: string): Buffer | null {
+  const custom = envName ? process.env[envName]?.trim() : "";
+  try {
+    return fs.readFileSync(custom || require.resolve(`dejavu-fonts-ttf/ttf/${bundled}`));
+  } catch (e: any) {
+    console.error(`pdf font ${custom || bundled} unavailable:`, e?.message || e);
+    return null;
+  }
+}
+
+export async function embedFonts(pdf: PDFDocument): Promise<PdfFonts> {
+  const regularBytes = fontFile("PDF_FONT_PATH", "DejaVuSans.ttf");
+  const boldBytes = fontFile("PDF_FONT_BOLD_PATH", "DejaVuSans-Bold.ttf");
+
+  if (regularBytes) {
+    try {
+      pdf.registerFontkit(fontkit);
+      const embed = async (bytes: Buffer | null, fallback: PDFFont) =>
+        bytes ? await pdf.embedFont(bytes, { subset: true }) : fallback;
+
+      const regular = await pdf.embedFont(regularBytes, { subset: true });
+      const bold = await embed(boldBytes, regular);
+      // styled variants only come from the bundled family
+      const italic = await embed(fontFile("", "DejaVuSans-Oblique.ttf"), regular);
+      const boldItalic = await embed(fontFile("", "DejaVuSans-BoldOblique.ttf"), bold);
+      const mono = await embed(fontFile("", "DejaVuSansMono.ttf"), regular);
+      return { regular, bold, italic, boldItalic, mono, unicode: true };
+    } catch (e: any) {
+      console.error("pdf font embed error:", e?.message || e);
+    }
+  }
+
+  // Last resort: the old WinAnsi fonts. fitToFont() still keeps drawText safe.
+  return {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+    boldItalic: await pdf.embedFont(StandardFonts.HelveticaBoldOblique),
+    mono: await pdf.embedFont(StandardFonts.Courier),
+    unicode: false
+  };
+}
+
+const charsets = new WeakMap<PDFFont, Set<number>>();
+
+function charsetOf(font: PDFFont): Set<number> {
+  let set = charsets.get(font);
+  if (!set) {
+    set = new Set(font.getCharacterSet());
+    charsets.set(font, set);
+  }
+  return set;
+}
+
+function graphemes(text: string): string[] {
+  const Segmenter = (Intl as any).Segmenter;
+  if (!Segmenter) return Array.from(text);
+  const seg = new Segmenter(undefined, { granularity: "grapheme" });
+  return Array.from(seg.segment(text), (s: any) => s.segment as string);
+}
+
+function supported(set: Set<number>, s: string): boolean {
+  for (const ch of s) {
+    if (!set.has(ch.codePointAt(0) as number)) return false;
+  }
+  return true;
+}
+
+// Make text safe to measure and draw with `font`: every grapheme the font
+// can't render becomes a plain-text stand-in or a single placeholder box.
+export function fitToFont(font: PDFFont, text: string): string {
+  const set = charsetOf(font);
+  const placeholder = supported(set, PLACEHOLDER) ? PLACEHOLDER : FALLBACK_PLACEHOLDER;
+  let out = "";
+
+  for (const g of graphemes(text || "")) {
+    if (g === "\n" || g === "\r\n") {
+      out += "\n";
+      continue;
+    }
+    const core = g.replace(IGNORABLE, "");
+    if (!core) continue;
+    if (supported(set, core)) {
+      out += core;
+      continue;
+    }
+    const swap = REPLACEMENTS[core];
+    out += swap !== undefined && supported(set, swap.replace(/\s/g, "")) ? swap : placeholder;
+  }
+
+  return out;
+}
@@ -0,0 +1,201 @@
+import { PDFDocument, PDFPage } from "pdf-lib";
+
+/**
+ * Page geometry for PDF export, driven by the options picked in the
+ * "Export thread as PDF" modal (grid columns, paper size, orientation,
+ * photo size, full-page mode).
+ */
+
+export type PageSizeName = "letter" | "a4" | "legal";
+export type ImageSize = "small" | "medium" | "large";
+
+export type PdfLayoutOptions = {
+  columns: 1 | 2 | 3;
+  pageSize: PageSizeName;
+  orientation: "portrait" | "landscape";
+  imageSize: ImageSize;
+  // one photo per page, scaled to fill it
+  fullPage: boolean;
+  coverPage: boolean;
+  toc: boolean;
+};
+
+export const DEFAULT_LAYOUT: PdfLayoutOptions = {
+  columns: 2,
+  pageSize: "letter",
+  orientation: "portrait",
+  imageSize: "medium",
+  fullPage: false,
+  coverPage: true,
+  toc: true
+};
+
+// PDF points (1/72 in), portrait
+export const PAGE_SIZES: Record<PageSizeName, [number, number]> = {
+  letter: [612, 792],
+  a4: [595.28, 841.89],
+  legal: [612, 1008]
+};
+
+const IMAGE_SCALE: Record<ImageSize, number> = { small: 0.7, medium: 1, large: 1.35 };
+
+export type Layout = {
+  opts: PdfLayoutOptions;
+  pageW: number;
+  pageH: number;
+  margin: number;
+  gutter: number;
+  contentW: number;
+  // how many tiles per row (1 in full-page mode)
+  columns: number;
+  tileW: number;
+  tileHMax: number;
+  rowGap: number;
+  page: PDFPage;
+  y: number;
+  newPage(): void;
+  // mark the current page as full so the next ensureSpace() starts a new one
+  closePage(): void;
+  ensureSpace(required: number): void;
+  // left edge of grid column `col`
+  columnX(col: number): number;
+  // space left on the current page above the bottom margin
+  remaining(): number;
+};
+
+export function createLayout(pdf: PDFDocument, opts: PdfLayoutOptions): Layout {
+  const [w, h] = PAGE_SIZES[opts.pageSize] || PAGE_SIZES.letter;
+  const landscape = opts.orientation === "landscape";
+  const pageW = landscape ? h : w;
+  const pageH = landscape ? w : h;
+
+  const margin = 36;
+  const gutter = 16;
+  const contentW = pageW - margin * 2;
+  const contentH = pageH - margin * 2;
+  const columns = opts.fullPage ? 1 : opts.columns;
+  const tileW = Math.floor((contentW - gutter * (columns - 1)) / columns);
+
+  // Letter portrait 2-up works out to the old 240pt tiles; other grids scale
+  // with the tile width, but never take more than ~half a page (or a full
+  // page's content area in full-page mode).
+  const tileHMax = opts.fullPage
+    ? contentH
+    : Math.floor(
+        Math.min(tileW * 0.92 * IMAGE_SCALE[opts.imageSize], contentH * (columns === 1 ? 0.7 : 0.5))
+      );
+
+  const layout: Layout = {
+    opts,
+    pageW,
+    pageH,
+    margin,
+    gutter,
+    contentW,
+    columns,
+    tileW,
+    tileHMax,
+    rowGap: 14,
+    page: pdf.addPage([pageW, pageH]),
+    y: pageH - margin,
+    newPage() {
+      layout.page = pdf.addPage([pageW, pageH]);
+      layout.y = pageH - margin;
+    },
+    closePage() {
+      layout.y = 0;
+    },
+    ensureSpace(required: number) {
+      if (layout.y - required < margin) layout.newPage();
+    },
+    columnX(col: number) {
+      return margin + col * (tileW + gutter);
+    },
+    remaining() {
+      return layout.y - margin;
+    }
+  };
+  return layout;
+}
+
+// Read the layout choices out of the export modal's state values.
+export function layoutFromState(values: any): PdfLayoutOptions {
+  const pick = (block: string, action: string) =>
+    values?.[block]?.[action]?.selected_option?.value as string | undefined;
+
+  const columns = Number(pick("layout_columns", "columns_action"));
+  const pageSize = pick("layout_page", "page_action") as PageSizeName | undefined;
+  const orientation = pick("layout_orientation", "orientation_action");
+  const imageSize = pick("layout_image", "image_action") as ImageSize | undefined;
+  const checked = (block: string, action: string, value: string) =>
+    (values?.[block]?.[action]?.selected_options || []).some((o: any) => o.value === value);
+
+  return {
+    columns: columns === 1 || columns === 3 ? columns : DEFAULT_LAYOUT.columns,
+    pageSize: pageSize && PAGE_SIZES[pageSize] ? pageSize : DEFAULT_LAYOUT.pageSize,
+    orientation: orientation === "landscape" ? "landscape" : "portrait",
+    imageSize: imageSize && imageSize in IMAGE_SCALE ? imageSize : DEFAULT_LAYOUT.imageSize,
+    fullPage: checked("layout_full", "full_action", "full_page"),
+    coverPage: checked("layout_extras", "extras_action", "cover"),
+    toc: checked("layout_extras", "extras_action", "toc")
+  };
+}
+
+// Modal input blocks for the layout options.
+export function layoutBlocks(): any[] {
+  const opt = (text: string, value: string) => ({ text: { type: "plain_text", text }, value });
+  const select = (block_id: string, action_id: string, label: string, options: any[], initial: any) => ({
+    type: "input",
+    block_id,
+    label: { type: "plain_text", text: label },
+    element: { type: "static_select", action_id, options, initial_option: initial }
+  });
+
+  const columns = [opt("1 column", "1"), opt("2 columns", "2"), opt("3 columns", "3")];
+  const pages = [opt("US Letter", "letter"), opt("A4", "a4"), opt("US Legal", "legal")];
+  const orient = [opt("Portrait", "portrait"), opt("Landscape", "landscape")];
+  const sizes = [opt("Small", "small"), opt("Medium", "medium"), opt("Large", "large")];
+  const extras = [
+    {
+      ...opt("Cover page", "cover"),
+      description: { type: "plain_text", text: "Channel, dates, contributors and counts" }
+    },
+    opt("Table of contents", "toc")
+  ];
+
+  return [
+    select("layout_columns", "columns_action", "Photo grid", columns, columns[1]),
+    select("layout_page", "page_action", "Page size", pages, pages[0]),
+    select("layout_orientation", "orientation_action", "Orientation", orient, orient[0]),
+    select("layout_image", "image_action", "Photo size", sizes, sizes[1]),
+    {
+      type: "input",
+      block_id: "layout_full",
+      optional: true,
+      label: { type: "plain_text", text: "Full-page photos" },
+      element: {
+        type: "checkboxes",
+        action_id: "full_action",
+        options: [
+          {
+            text: { type: "plain_text", text: "One photo per page" },
+            description: { type: "plain_text", text: "Ignores the grid and photo size" },
+            value: "full_page"
+          }
+        ]
+      }
+    },
+    {
+      type: "input",
+      block_id: "layout_extras",
+      optional: true,
+      label: { type: "plain_text", text: "Report pages" },
+      element: {
+        type: "checkboxes",
+        action_id: "extras_action",
+        options: extras,
+        initial_options: extras
+      }
+    }
+  ];
+}
@@ -0,0 +1,246 @@
+import { PDFDocument, PDFFont, PDFHexString, PDFName, PDFPage, PDFRef, rgb } from "pdf-lib";
+import { PdfFonts, fitToFont } from "./pdfFonts";
+import { Layout } from "./pdfLayout";
+
+/**
+ * Report navigation for exported PDFs: cover page, table of contents,
+ * outline bookmarks and "Page X of Y" footers.
+ *
+ * Everything here runs after the entries are laid out, because only then do
+ * we know which page each entry landed on. Cover and contents pages are
+ * inserted in front of the content afterwards.
+ */
+
+export type TocEntry = {
+  title: string;
+  page: PDFPage;
+  // top of the entry on its page, used as the jump target
+  y: number;
+  // 1 = nested under the closest level-0 entry before it (a report's
+  // entries under their thread's chapter); default 0
+  level?: number;
+};
+
+export type CoverInfo = {
+  title: string;
+  category: string;
+  channelName: string;
+  dateRange: string;
+  contributors: string[];
+  entryCount: number;
+  photoCount: number;
+  exportedAt: string;
+};
+
+const TOC_SIZE = 10.5;
+const TOC_LINE_H = 16;
+const TOC_INDENT = 14;
+const HEADING_SIZE = 16;
+
+function fitLine(font: PDFFont, text: string, size: number, maxWidth: number): string {
+  let t = fitToFont(font, (text || "").replace(/\s+/g, " ").trim());
+  if (font.widthOfTextAtSize(t, size) <= maxWidth) return t;
+  while (t && font.widthOfTextAtSize(`${t}…`, size) > maxWidth) t = t.slice(0, -1);
+  return fitToFont(font, `${t.trimEnd()}…`);
+}
+
+function goToLink(page: PDFPage, rect: number[], target: PDFPage, y: number): void {
+  const ctx = page.doc.context;
+  const annot = ctx.obj({
+    Type: "Annot",
+    Subtype: "Link",
+    Rect: rect,
+    Border: [0, 0, 0],
+    Dest: [target.ref, "XYZ", null, y, null]
+  });
+  page.node.addAnnot(ctx.register(annot));
+}
+
+export function addCoverPage(pdf: PDFDocument, fonts: PdfFonts, layout: Layout, info: CoverInfo): PDFPage {
+  const page = pdf.insertPage(0, [layout.pageW, layout.pageH]);
+  const { margin, contentW } = layout;
+  let y = layout.pageH * 0.68;
+
+  const titleSize = 24;
+  const words = fitToFont(fonts.bold, info.title).split(/\s+/);
+  let line = "";
+  const lines: string[] = [];
+  for (const w of words) {
+    const test = line ? `${line} ${w}` : w;
+    if (fonts.bold.widthOfTextAtSize(test, titleSize) > contentW && line) {
+      lines.push(line);
+      line = w;
+    } else {
+      line = test;
+    }
+  }
+  if (line) lines.push(line);
+  for (const l of lines.slice(0, 4)) {
+    page.drawText(l, { x: margin, y, size: titleSize, font: fonts.bold, color: rgb(0, 0, 0) });
+    y -= titleSize + 6;
+  }
+
+  y -= 10;
+  page.drawLine({
+    start: { x: margin, y },
+    end: { x: margin + contentW, y },
+    thickness: 1,
+    color: rgb(0.2, 0.2, 0.2)
+  });
+  y -= 28;
+
+  const rows: Array<[string, string]> = [
+    ["Category", info.category],
+    ["Channel", info.channelName ? `#${info.channelName}` : ""],
+    ["Dates", info.dateRange],
+    ["Contributors", info.contributors.join(", ")],
+    ["Entries", String(info.entryCount)],
+    ["Photos", String(info.photoCount)],
+    ["Exported", info.exportedAt]
+  ];
+  const labelW = 100;
+  for (const [label, value] of rows) {
+    if (!value) continue;
+    page.drawText(label, { x: margin, y, size: 11, font: fonts.bold, color: rgb(0.3, 0.3, 0.3) });
+    page.drawText(fitLine(fonts.regular, value, 11, contentW - labelW), {
+      x: margin + labelW,
+      y,
+      size: 11,
+      font: fonts.regular,
+      color: rgb(0, 0, 0)
+    });
+    y -= 20;
+  }
+
+  return page;
+}
+
+// Insert contents pages at `insertAt`, each line linking to its entry.
+export function addTableOfContents(
+  pdf: PDFDocument,
+  fonts: PdfFonts,
+  layout: Layout,
+  entries: TocEntry[],
+  insertAt: number
+): void {
+  if (!entries.length) return;
+  const { margin, contentW, pageW, pageH } = layout;
+  const top = pageH - margin - HEADING_SIZE - 14;
+  const perPage = Math.max(1, Math.floor((top - margin) / TOC_LINE_H));
+  const pageCount = Math.ceil(entries.length / perPage);
+
+  // Insert every contents page first so page numbers below are final.
+  const tocPages: PDFPage[] = [];
+  for (let i = 0; i < pageCount; i++) {
+    tocPages.push(pdf.insertPage(insertAt + i, [pageW, pageH]));
+  }
+  const allPages = pdf.getPages();
+  const numW = fonts.regular.widthOfTextAtSize("0000", TOC_SIZE);
+  // with nested entries, the level-0 lines are headings
+  const nested = entries.some((e) => e.level);
+
+  entries.forEach((e, i) => {
+    const page = tocPages[Math.floor(i / perPage)];
+    if (i % perPage === 0) {
+      page.drawText(i === 0 ? "Contents" : "Contents (continued)", {
+        x: margin,
+        y: pageH - margin - HEADING_SIZE,
+        size: HEADING_SIZE,
+        font: fonts.bold,
+        color: rgb(0, 0, 0)
+      });
+    }
+    const y = top - (i % perPage) * TOC_LINE_H;
+    const pageNo = String(allPages.indexOf(e.page) + 1);
+    const indent = e.level ? TOC_INDENT : 0;
+    const font = nested && !e.level ? fonts.bold : fonts.regular;
+
+    page.drawText(fitLine(font, e.title, TOC_SIZE, contentW - numW - 12 - indent), {
+      x: margin + indent,
+      y,
+      size: TOC_SIZE,
+      font,
+      color: rgb(0, 0, 0)
+    });
+    page.drawText(pageNo, {
+      x: margin + contentW - fonts.regular.widthOfTextAtSize(pageNo, TOC_SIZE),
+      y,
+      size: TOC_SIZE,
+      font: fonts.regular,
+      color: rgb(0, 0, 0)
+    });
+    goToLink(page, [margin, y - 3, margin + contentW, y + TOC_SIZE], e.page, e.y);
+  });
+}
+
+type OutlineItem = { entry: TocEntry; ref: PDFRef; children: OutlineItem[] };
+
+// Link siblings under `parent`; returns how many items show when all are open.
+function assignOutline(pdf: PDFDocument, items: OutlineItem[], parent: PDFRef): number {
+  const ctx = pdf.context;
+  let visible = 0;
+  items.forEach((item, i) => {
+    const open = assignOutline(pdf, item.children, item.ref);
+    visible += 1 + open;
+    const e = item.entry;
+    ctx.assign(
+      item.ref,
+      ctx.obj({
+        Title: PDFHexString.fromText(e.title.slice(0, 200)),
+        Parent: parent,
+        ...(i > 0 ? { Prev: items[i - 1].ref } : {}),
+        ...(i < items.length - 1 ? { Next: items[i + 1].ref } : {}),
+        ...(item.children.length
+          ? { First: item.children[0].ref, Last: item.children[item.children.length - 1].ref, Count: open }
+          : {}),
+        Dest: [e.page.ref, "XYZ", null, e.y, null]
+      })
+    );
+  });
+  return visible;
+}
+
+// Outline (bookmarks) shown in the viewer's sidebar: one item per entry,
+// level-1 entries nested under the chapter before them.
+export function addOutline(pdf: PDFDocument, entries: TocEntry[]): void {
+  if (!entries.length) return;
+  const ctx = pdf.context;
+  const outlinesRef = ctx.nextRef();
+  const top: OutlineItem[] = [];
+  for (const entry of entries) {
+    const item: OutlineItem = { entry, ref: ctx.nextRef(), children: [] };
+    const chapter = top[top.length - 1];
+    if (entry.level && chapter) chapter.children.push(item);
+    else top.push(item);
+  }
+  const visible = assignOutline(pdf, top, outlinesRef);
+
+  ctx.assign(
+    outlinesRef,
+    ctx.obj({
+      Type: "Outlines",
+      First: top[0].ref,
+      Last: top[top.length - 1].ref,
+      Count: visible
+    })
+  );
+  pdf.catalog.set(PDFName.of("Outlines"), outlinesRef);
+  pdf.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
+
+// "Page X of Y · Exported <date>" centered at the bottom of every page.
+export function addPageFooters(pdf: PDFDocument, fonts: PdfFonts, exportedAt: string): void {
+  const pages = pdf.getPages();
+  const size = 8;
+  pages.forEach((page, i) => {
+    const text = fitToFont(fonts.regular, `Page ${i + 1} of ${pages.length}  ·  Exported ${exportedAt}`);
+    const w = fonts.regular.widthOfTextAtSize(text, size);
+    page.drawText(text, {
+      x: (page.getWidth() - w) / 2,
+      y: 18,
+      size,
+      font: fonts.regular,
+      color: rgb(0.45, 0.45, 0.45)
+    });
+  });
+}
@@ -0,0 +1,149 @@
+import { PDFFont, PDFPage, PDFString, RGB, rgb } from "pdf-lib";
+import { PdfFonts, fitToFont } from "./pdfFonts";
+import { Run } from "./mrkdwn";
+
+/**
+ * Rich text for PDF captions: wraps styled mrkdwn runs across lines, draws
+ * bold/italic/strike/code with the matching font, and turns links into
+ * clickable URI annotations.
+ */
+
+export type RichSegment = { text: string; font: PDFFont; width: number; run: Run };
+export type RichLine = RichSegment[];
+
+const LINK_COLOR = rgb(0.07, 0.33, 0.73);
+
+export function fontForRun(fonts: PdfFonts, run: Run): PDFFont {
+  if (run.code) return fonts.mono;
+  if (run.bold && run.italic) return fonts.boldItalic;
+  if (run.bold) return fonts.bold;
+  if (run.italic) return fonts.italic;
+  return fonts.regular;
+}
+
+// Greedy word wrap across runs. Explicit newlines are kept (blank lines too).
+export function layoutRuns(
+  runs: Run[],
+  fonts: PdfFonts,
+  maxWidth: number,
+  size: number,
+  maxLines: number
+): RichLine[] {
+  const lines: RichLine[] = [];
+  let cur: RichLine = [];
+  let curW = 0;
+  let pendingSpace: { run: Run; font: PDFFont } | null = null;
+
+  function append(text: string, font: PDFFont, width: number, run: Run) {
+    const last = cur[cur.length - 1];
+    if (last && last.run === run && last.font === font) {
+      last.text += text;
+      last.width += width;
+    } else {
+      cur.push({ text, font, width, run });
+    }
+    curW += width;
+  }
+
+  function breakLine() {
+    lines.push(cur);
+    cur = [];
+    curW = 0;
+    pendingSpace = null;
+  }
+
+  for (const run of runs) {
+    const font = fontForRun(fonts, run);
+    const pieces = fitToFont(font, run.text).split(/(\n|[^\S\n]+)/);
+
+    for (const piece of pieces) {
+      if (!piece) continue;
+      if (lines.length >= maxLines) return lines.slice(0, maxLines);
+
+      if (piece === "\n") {
+        breakLine();
+        continue;
+      }
+      if (!piece.trim()) {
+        if (cur.length) pendingSpace = { run, font };
+        continue;
+      }
+
+      const w = font.widthOfTextAtSize(piece, size);
+      const sp = pendingSpace as { run: Run; font: PDFFont } | null;
+      const spaceW = sp ? sp.font.widthOfTextAtSize(" ", size) : 0;
+
+      if (cur.length && curW + spaceW + w > maxWidth) {
+        breakLine();
+        if (lines.length >= maxLines) return lines.slice(0, maxLines);
+      } else if (sp) {
+        append(" ", sp.font, spaceW, sp.run);
+      }
+      pendingSpace = null;
+      append(piece, font, w, run);
+    }
+  }
+
+  if (cur.length && lines.length < maxLines) lines.push(cur);
+  return lines.slice(0, maxLines);
+}
+
+export function addLinkAnnotation(
+  page: PDFPage,
+  rect: [number, number, number, number],
+  url: string
+): void {
+  const ctx = page.doc.context;
+  const annot = ctx.obj({
+    Type: "Annot",
+    Subtype: "Link",
+    Rect: rect,
+    Border: [0, 0, 0],
+    A: { Type: "Action", S: "URI", URI: PDFString.of(url) }
+  });
+  page.node.addAnnot(ctx.register(annot));
+}
+
+// Draw laid-out lines; the first baseline sits one `size` below topY.
+// Returns the baseline the next line would have used.
+export function drawRichLines(
+  page: PDFPage,
+  lines: RichLine[],
+  x: number,
+  topY: number,
+  size: number,
+  lineHeight: number,
+  color: RGB
+): number {
+  let y = topY - size;
+
+  for (const line of lines) {
+    let cx = x;
+    for (const seg of line) {
+      const segColor = seg.run.url ? LINK_COLOR : color;
+      page.drawText(seg.text, { x: cx, y, size, font: seg.font, color: segColor });
+
+      if (seg.run.strike) {
+        page.drawLine({
+          start: { x: cx, y: y + size * 0.3 },
+          end: { x: cx + seg.width, y: y + size * 0.3 },
+          thickness: Math.max(0.5, size / 16),
+          color: segColor
+        });
+      }
+      if (seg.run.url) {
+        page.drawLine({
+          start: { x: cx, y: y - 1.5 },
+          end: { x: cx + seg.width, y: y - 1.5 },
+          thickness: 0.5,
+          color: segColor
+        });
+        addLinkAnnotation(page, [cx, y - 3, cx + seg.width, y + size], seg.run.url);
+      }
+      cx += seg.width;
+    }
+    y -= lineHeight;
+  }
+
+  return y;
+}
@@ -0,0 +1,27 @@
+/**
+ * Slack message permalinks → channel and ts.
+ *
+ *   https://acme.slack.com/archives/C0123ABC/p1760912345001200
+ *   https://acme.slack.com/archives/C0123ABC/p1760912399001500?thread_ts=1760912345.001200&cid=C0123ABC
+ *
+ * The "p" part is the message ts without its dot. Links to a reply carry the
+ * thread root in `thread_ts`. Slash command text may wrap the link in <…>.
+ */
+
+export type MessageRef = {
+  channel_id: string;
+  // the linked message
+  ts: string;
+  // thread root: `ts` itself for a top-level message
+  thread_ts: string;
+};
+
+const PERMALINK = /https?:\/\/[^\s<>|]+\/archives\/([CDG][A-Z0-9]+)\/p(\d{10})(\d{6})([^\s<>|]*)/i;
+
+export function parsePermalink(text: string): MessageRef | null {
+  const m = (text || "").match(PERMALINK);
+  if (!m) return null;
+  const ts = `${m[2]}.${m[3]}`;
+  const thread = (m[4] || "").match(/[?&]thread_ts=(\d+\.\d+)/);
+  return { channel_id: m[1].toUpperCase(), ts, thread_ts: thread ? thread[1] : ts };
+}
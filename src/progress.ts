@@ -0,0 +1,140 @@
+/**
+ * Block Kit status message for background exports: current step, a progress
+ * bar with "image 37/120" style counts, fallback/failure tallies and a Cancel
+ * button.
+ *
+ * chat.update is rate limited (roughly once a second per channel), so
+ * per-image updates are throttled; step changes and the final message always
+ * go out. Updates are sent one after another, each with the latest state, so
+ * fire-and-forget calls from download callbacks can't land out of order, and
+ * nothing sent after finish() can overwrite the final line.
+ */
+
+export type ProgressState = {
+  step: number;
+  steps: number;
+  label: string;
+  // counted work inside the step (images, entries…)
+  done?: number;
+  total?: number;
+  unit?: string;
+  // images drawn from Slack's preview because the original wouldn't decode
+  fallback?: number;
+  failed?: number;
+  // extra line under the counts (e.g. "thread was cut short")
+  note?: string;
+};
+
+export type ProgressReporter = {
+  update(patch: Partial<ProgressState>, force?: boolean): Promise<void>;
+  // replace the status with a final line; removes the bar and Cancel button
+  finish(text: string): Promise<void>;
+};
+
+const BAR_WIDTH = 20;
+const MIN_INTERVAL_MS = 1500;
+
+export function progressBar(done: number, total: number): string {
+  const ratio = total > 0 ? Math.min(1, Math.max(0, done / total)) : 0;
+  const filled = Math.round(ratio * BAR_WIDTH);
+  return `\`${"█".repeat(filled)}${"░".repeat(BAR_WIDTH - filled)}\` ${Math.round(ratio * 100)}%`;
+}
+
+export function cancelButton(jobId: string): any {
+  return {
+    type: "button",
+    action_id: "export_cancel",
+    text: { type: "plain_text", text: "Cancel" },
+    style: "danger",
+    value: jobId,
+    confirm: {
+      title: { type: "plain_text", text: "Cancel export?" },
+      text: { type: "plain_text", text: "The export stops and nothing is posted." },
+      confirm: { type: "plain_text", text: "Cancel export" },
+      deny: { type: "plain_text", text: "Keep going" }
+    }
+  };
+}
+
+// Plain-text fallback for notifications and clients without Block Kit.
+export function progressText(s: ProgressState): string {
+  const counts = s.total ? ` ${s.unit || "item"} ${s.done || 0}/${s.total}` : "";
+  return `Step ${s.step}/${s.steps}: ${s.label}${counts}`;
+}
+
+export function progressBlocks(s: ProgressState, jobId?: string): any[] {
+  const lines = [`*Step ${s.step}/${s.steps}: ${s.label}*`];
+  if (s.total) lines.push(`${progressBar(s.done || 0, s.total)}  ${s.unit || "item"} ${s.done || 0}/${s.total}`);
+
+  const tallies: string[] = [];
+  if (s.fallback) tallies.push(`${s.fallback} used Slack’s preview`);
+  if (s.failed) tallies.push(`${s.failed} failed`);
+
+  const blocks: any[] = [{ type: "section", text: { type: "mrkdwn", text: lines.join("\n") } }];
+  const context = [tallies.join("  ·  "), s.note || ""].filter(Boolean);
+  if (context.length) {
+    blocks.push({
+      type: "context",
+      elements: context.map((text) => ({ type: "mrkdwn", text }))
+    });
+  }
+  if (jobId) blocks.push({ type: "actions", elements: [cancelButton(jobId)] });
+  return blocks;
+}
+
+export function createProgressReporter(
+  client: any,
+  channel: string,
+  ts: string,
+  initial: ProgressState,
+  jobId?: string
+): ProgressReporter {
+  let state: ProgressState = { ...initial };
+  let lastSent = 0;
+  let finished = false;
+  // every chat.update waits for the one before it
+  let queue: Promise<void> = Promise.resolve();
+
+  // a send is queued and will pick up the latest state; no need for another
+  let waiting = false;
+
+  function send(): Promise<void> {
+    lastSent = Date.now();
+    if (waiting) return queue;
+    waiting = true;
+    queue = queue.then(async () => {
+      waiting = false;
+      if (finished) return;
+      try {
+        await client.chat.update({
+          channel,
+          ts,
+          text: progressText(state),
+          blocks: progressBlocks(state, jobId)
+        });
+      } catch (e: any) {
+        // a missed progress update shouldn't fail the export
+        console.error("progress update error:", e?.data || e?.message || e);
+      }
+    });
+    return queue;
+  }
+
+  return {
+    async update(patch, force = false) {
+      if (finished) return;
+      const stepChanged = patch.step !== undefined && patch.step !== state.step;
+      state = { ...state, ...patch };
+      if (force || stepChanged || Date.now() - lastSent >= MIN_INTERVAL_MS) await send();
+    },
+    async finish(text) {
+      finished = true;
+      const final = queue.then(() => client.chat.update({ channel, ts, text, blocks: [] }));
+      queue = final.then(
+        () => undefined,
+        () => undefined
+      );
+      await final;
+    }
+  };
+}
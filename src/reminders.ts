@@ -0,0 +1,253 @@
+import { openStore } from "./store";
+import { tsAfter } from "./canvas";
+
+/**
+ * Follow-up reminders that clear themselves once someone answers.
+ *
+ * Every reminder scheduled through chat.scheduleMessage is remembered here
+ * with the people it's waiting on. Message events from the same thread (or,
+ * for a top-level message, the channel) are checked against it; a matching
+ * reply deletes the scheduled message. The App Home lists the same records
+ * so people can snooze, reschedule or cancel their own reminders; Slack
+ * can't edit a scheduled message, so moving one means scheduling a copy and
+ * deleting the original.
+ *
+ * A reminder goes to the thread, the channel or the requester's DMs, and can
+ * come with a scheduled nudge DM to each person it's waiting on.
+ */
+
+export type Delivery = "thread" | "channel" | "dm";
+
+export type Nudge = { user: string; channel: string; scheduled_message_id: string };
+
+export type Reminder = {
+  scheduled_message_id: string;
+  // channel of the message the reminder is about (watched for replies)
+  channel_id: string;
+  message_ts: string;
+  // thread root when the message was in a thread, else ""
+  thread_ts: string;
+  requester: string;
+  // people the requester is waiting on
+  mentioned: string[];
+  // "mentioned": only their replies clear it; "anyone": any reply but the requester's
+  clear_on: "mentioned" | "anyone";
+  delivery: Delivery;
+  // epoch seconds the reminder fires at
+  post_at: number;
+  // what gets posted, kept so the reminder can be rescheduled
+  text: string;
+  // where the scheduled message posts (a DM channel for "dm")
+  post_channel: string;
+  post_thread_ts: string;
+  permalink: string;
+  nudges: Nudge[];
+  created_at: string;
+};
+
+export type ReminderDraft = Omit<
+  Reminder,
+  "scheduled_message_id" | "post_channel" | "post_thread_ts" | "nudges" | "created_at"
+> & {
+  // also DM each person in `mentioned` when the reminder fires
+  nudge: boolean;
+};
+
+const reminders = openStore<Reminder>("reminders");
+
+export function saveReminder(r: Reminder): void {
+  reminders.set(r.scheduled_message_id, r);
+}
+
+// Records saved before delivery options had one mentioned ID and always
+// posted next to the message. The oldest ones (before App Home) didn't keep
+// the text or where it posts either: it went under the message when that was
+// in a thread, else to the channel.
+function upgrade(r: Reminder): Reminder {
+  if (Array.isArray(r.mentioned)) return r;
+  const mentioned = (r as any).mentioned ? [String((r as any).mentioned)] : [];
+  const out: Reminder = { ...r, mentioned, delivery: "thread", post_channel: r.channel_id, nudges: [] };
+  if (typeof r.text !== "string") {
+    const people = mentioned.map((u) => `<@${u}>`).join(", ");
+    out.text = [
+      `⏰ <@${r.requester}>, follow-up check${people ? ` on ${people}` : ""}.`,
+      "_If they've already handled it, you can ignore this._"
+    ].join("\n");
+    out.post_thread_ts = r.thread_ts ? r.message_ts : "";
+    out.permalink = "";
+  }
+  return out;
+}
+
+export function getReminder(id: string): Reminder | undefined {
+  const r = reminders.get(id);
+  return r && upgrade(r);
+}
+
+export function forgetReminder(id: string): void {
+  reminders.delete(id);
+}
+
+// Pending reminders matching `keep`; ones that already fired are dropped.
+function pending(keep: (r: Reminder) => boolean): Reminder[] {
+  const now = Date.now() / 1000;
+  const out: Reminder[] = [];
+  for (const [id, saved] of reminders.entries()) {
+    if (saved.post_at <= now) {
+      reminders.delete(id);
+      continue;
+    }
+    const r = upgrade(saved);
+    if (keep(r)) out.push(r);
+  }
+  return out.sort((a, b) => a.post_at - b.post_at);
+}
+
+export function remindersIn(channel_id: string): Reminder[] {
+  return pending((r) => r.channel_id === channel_id);
+}
+
+// A user's own pending reminders, soonest first.
+export function remindersFor(user_id: string): Reminder[] {
+  return pending((r) => r.requester === user_id);
+}
+
+// Subtypes that are still someone answering: a photo reply, "also send to
+// channel", /me. Edits, deletes, joins and bot posts don't count.
+const ANSWER_SUBTYPES = new Set(["file_share", "thread_broadcast", "me_message"]);
+
+// Does this message event answer the reminder?
+export function replyClears(r: Reminder, msg: any): boolean {
+  if (!msg?.user || msg.bot_id) return false;
+  if (msg.subtype && !ANSWER_SUBTYPES.has(msg.subtype)) return false;
+  if (msg.user === r.requester) return false;
+  // only replies posted after the reminder was set
+  if (!tsAfter(msg.ts, String(Date.parse(r.created_at) / 1000))) return false;
+
+  const where = msg.thread_ts || "";
+  if (r.thread_ts) {
+    if (where !== r.thread_ts) return false;
+  } else if (where && where !== r.message_ts) {
+    // top-level message: its own thread or the channel itself, not other threads
+    return false;
+  }
+
+  if (r.clear_on === "mentioned" && r.mentioned.length) return r.mentioned.includes(msg.user);
+  return true;
+}
+
+function nudgeText(r: Pick<Reminder, "requester" | "permalink" | "channel_id">, user: string): string {
+  const link = r.permalink ? `<${r.permalink}|this message>` : `a message in <#${r.channel_id}>`;
+  return `👋 Hi <@${user}>, <@${r.requester}> is following up on ${link}. Could you take a look when you get a chance?`;
+}
+
+async function dmChannel(client: any, user: string): Promise<string> {
+  const res = (await client.conversations.open({ users: user })) as any;
+  return res?.channel?.id as string;
+}
+
+async function schedule(
+  client: any,
+  channel: string,
+  thread_ts: string,
+  post_at: number,
+  text: string
+): Promise<{ id: string; post_at: number }> {
+  const res = (await client.chat.scheduleMessage({
+    channel,
+    post_at,
+    text,
+    unfurl_links: false,
+    unfurl_media: false,
+    ...(thread_ts ? { thread_ts } : {})
+  })) as any;
+  return { id: res.scheduled_message_id as string, post_at: Number(res.post_at) || post_at };
+}
+
+// Delete a scheduled message; one that already went out (or is gone) is fine.
+async function unschedule(client: any, channel: string, id: string): Promise<void> {
+  try {
+    await client.chat.deleteScheduledMessage({ channel, scheduled_message_id: id });
+  } catch (e: any) {
+    if (e?.data?.error !== "invalid_scheduled_message_id") throw e;
+  }
+}
+
+async function scheduleNudges(client: any, r: Reminder, post_at: number): Promise<Nudge[]> {
+  const nudges: Nudge[] = [];
+  for (const user of r.mentioned) {
+    if (user === r.requester) continue;
+    try {
+      const channel = await dmChannel(client, user);
+      const { id } = await schedule(client, channel, "", post_at, nudgeText(r, user));
+      nudges.push({ user, channel, scheduled_message_id: id });
+    } catch (e: any) {
+      console.error("nudge schedule error:", user, e?.data || e?.message || e);
+    }
+  }
+  return nudges;
+}
+
+// Schedule the reminder (and nudges) where the draft asks, and remember it.
+export async function scheduleReminder(client: any, draft: ReminderDraft): Promise<Reminder> {
+  const { nudge, ...base } = draft;
+  const post_channel = draft.delivery === "dm" ? await dmChannel(client, draft.requester) : draft.channel_id;
+  // "thread": under the thread root, or start a thread on a top-level message
+  const post_thread_ts = draft.delivery === "thread" ? draft.thread_ts || draft.message_ts : "";
+
+  const main = await schedule(client, post_channel, post_thread_ts, draft.post_at, draft.text);
+  const r: Reminder = {
+    ...base,
+    scheduled_message_id: main.id,
+    post_at: main.post_at,
+    post_channel,
+    post_thread_ts,
+    nudges: [],
+    created_at: new Date().toISOString()
+  };
+  if (nudge) r.nudges = await scheduleNudges(client, r, main.post_at);
+  saveReminder(r);
+  return r;
+}
+
+// Delete the reminder and its nudges from Slack's schedule and forget it.
+export async function cancelReminder(client: any, r: Reminder): Promise<void> {
+  await unschedule(client, r.post_channel, r.scheduled_message_id);
+  for (const n of r.nudges) {
+    await unschedule(client, n.channel, n.scheduled_message_id).catch((e: any) =>
+      console.error("nudge delete error:", e?.data || e?.message || e)
+    );
+  }
+  forgetReminder(r.scheduled_message_id);
+}
+
+// Move a reminder: schedule copies at the new time, then drop the originals.
+// If the original can't be dropped, the copies are taken back down and the
+// error is rethrown, so the record keeps pointing at the message that will fire.
+export async function moveReminder(client: any, r: Reminder, post_at: number): Promise<Reminder> {
+  const main = await schedule(client, r.post_channel, r.post_thread_ts, post_at, r.text);
+  const nudges: Nudge[] = [];
+  for (const n of r.nudges) {
+    try {
+      const { id } = await schedule(client, n.channel, "", post_at, nudgeText(r, n.user));
+      nudges.push({ ...n, scheduled_message_id: id });
+    } catch (e: any) {
+      console.error("nudge reschedule error:", n.user, e?.data || e?.message || e);
+    }
+  }
+  try {
+    await cancelReminder(client, r);
+  } catch (e: any) {
+    console.error("reminder move cleanup error:", e?.data || e?.message || e);
+    for (const [channel, id] of [[r.post_channel, main.id], ...nudges.map((n) => [n.channel, n.scheduled_message_id])]) {
+      await unschedule(client, channel, id).catch((err: any) =>
+        console.error("reminder move rollback error:", err?.data || err?.message || err)
+      );
+    }
+    throw e;
+  }
+
+  const moved: Reminder = { ...r, scheduled_message_id: main.id, post_at: main.post_at, nudges };
+  saveReminder(moved);
+  return moved;
+}
@@ -0,0 +1,73 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Tiny JSON-file key/value store for state that must survive a restart
+ * (Canvas sync records, caches, reminders…). One file per store under DATA_DIR.
+ *
+ * Optional ENV:
+ * - DATA_DIR=./data   -> where the JSON files live (use a persistent disk on Render)
+ */
+
+export type Store<T> = {
+  get(key: string): T | undefined;
+  set(key: string, value: T): void;
+  // several writes, one flush to disk
+  setMany(items: Array<[string, T]>): void;
+  delete(key: string): void;
+  // several deletes, one flush to disk
+  deleteMany(keys: string[]): void;
+  entries(): Array<[string, T]>;
+};
+
+export function dataDir(): string {
+  return path.resolve(process.env.DATA_DIR?.trim() || "data");
+}
+
+export function openStore<T>(name: string): Store<T> {
+  const file = path.join(dataDir(), `${name}.json`);
+  let data: Record<string, T> = {};
+
+  try {
+    data = JSON.parse(fs.readFileSync(file, "utf8")) || {};
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") console.error(`store ${name} read error:`, e?.message || e);
+  }
+
+  function flush() {
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      // write-then-rename so a crash never leaves half a JSON file behind
+      const tmp = `${file}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+      fs.renameSync(tmp, file);
+    } catch (e: any) {
+      console.error(`store ${name} write error:`, e?.message || e);
+    }
+  }
+
+  return {
+    get: (key) => data[key],
+    set(key, value) {
+      data[key] = value;
+      flush();
+    },
+    setMany(items) {
+      if (!items.length) return;
+      for (const [key, value] of items) data[key] = value;
+      flush();
+    },
+    delete(key) {
+      if (!(key in data)) return;
+      delete data[key];
+      flush();
+    },
+    deleteMany(keys) {
+      const present = keys.filter((key) => key in data);
+      if (!present.length) return;
+      for (const key of present) delete data[key];
+      flush();
+    },
+    entries: () => Object.entries(data)
+  };
+}
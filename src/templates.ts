@@ -0,0 +1,124 @@
+import fs from "fs";
+import path from "path";
+import { localParts } from "./zonedTime";
+
+/**
+ * Per-category output templates (Maintenance, Construction, Bidding…).
+ *
+ * Templates live in config/templates.json so the office can change header
+ * fields, checklists and section names without a deploy. The file is re-read
+ * on every export, so edits apply on the next run.
+ *
+ * Optional ENV:
+ * - TEMPLATES_PATH=config/templates.json
+ */
+
+export type HeaderField = {
+  label: string;
+  // where the value comes from; no source = blank line to fill in
+  source?: "channel" | "date" | "requester" | "root";
+};
+
+export type Template = {
+  label: string;
+  headerFields?: HeaderField[];
+  checklist?: string[];
+  sections?: Array<{ title: string; body?: string }>;
+  lineItems?: { columns: string[]; rows?: number };
+  // heading above the numbered photo entries ("" = none)
+  entriesHeading?: string;
+};
+
+export type TemplateContext = {
+  channelName: string;
+  requester: string;
+  rootText: string;
+  date: Date;
+  // the export's timezone, for the "date" field
+  tz: string;
+};
+
+const FALLBACK: Template = { label: "Other" };
+
+function templatesPath(): string {
+  return path.resolve(process.env.TEMPLATES_PATH?.trim() || "config/templates.json");
+}
+
+export function loadTemplates(): Record<string, Template> {
+  try {
+    const raw = JSON.parse(fs.readFileSync(templatesPath(), "utf8"));
+    return raw && typeof raw === "object" ? raw : {};
+  } catch (e: any) {
+    console.error("templates load error:", e?.message || e);
+    return {};
+  }
+}
+
+export function getTemplate(category: string): Template {
+  const all = loadTemplates();
+  return all[category] || all.other || FALLBACK;
+}
+
+// Static-select options for the Category picker, in file order.
+export function categoryOptions(): Array<{ text: { type: "plain_text"; text: string }; value: string }> {
+  const entries = Object.entries(loadTemplates());
+  const list = entries.length ? entries : [["other", FALLBACK] as [string, Template]];
+  return list.map(([value, t]) => ({
+    text: { type: "plain_text", text: (t.label || value).slice(0, 75) },
+    value
+  }));
+}
+
+export function headerFieldValue(f: HeaderField, ctx: TemplateContext): string {
+  switch (f.source) {
+    case "channel":
+      return ctx.channelName ? `#${ctx.channelName}` : "";
+    case "date": {
+      const p = localParts(ctx.date, ctx.tz);
+      return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+    }
+    case "requester":
+      return ctx.requester;
+    case "root":
+      return ctx.rootText;
+    default:
+      return "";
+  }
+}
+
+// Canvas markdown for everything the template puts above the numbered entries.
+export function templateMarkdown(tpl: Template, ctx: TemplateContext): string[] {
+  const lines: string[] = [];
+
+  if (tpl.headerFields?.length) {
+    for (const f of tpl.headerFields) {
+      lines.push(`**${f.label}:** ${headerFieldValue(f, ctx)}`);
+    }
+    lines.push("");
+  }
+
+  if (tpl.checklist?.length) {
+    lines.push("## Checklist", "");
+    for (const item of tpl.checklist) lines.push(`- [ ] ${item}`);
+    lines.push("");
+  }
+
+  if (tpl.lineItems?.columns?.length) {
+    const cols = tpl.lineItems.columns;
+    lines.push("## Line items", "");
+    lines.push(`| ${cols.join(" | ")} |`);
+    lines.push(`| ${cols.map(() => "---").join(" | ")} |`);
+    for (let i = 0; i < (tpl.lineItems.rows ?? 5); i++) {
+      lines.push(`| ${cols.map(() => " ").join(" | ")} |`);
+    }
+    lines.push("");
+  }
+
+  for (const s of tpl.sections || []) {
+    lines.push(`## ${s.title}`, "", s.body || "", "");
+  }
+
+  if (tpl.entriesHeading) lines.push(`## ${tpl.entriesHeading}`, "");
+
+  return lines;
+}
@@ -0,0 +1,184 @@
+/**
+ * Shared thread reader.
+ *
+ * conversations.replies returns at most one page per call, so long job-site
+ * threads need to follow response_metadata.next_cursor until it runs out.
+ * Rate limits (HTTP 429) are retried after the Retry-After delay Slack gives us.
+ * Channel reports list their threads the same way, from conversations.history.
+ *
+ * Optional ENV:
+ * - THREAD_MAX_MESSAGES=5000   -> hard cap on messages read per thread
+ * - REPORT_MAX_THREADS=100     -> hard cap on threads in one channel report
+ */
+
+const PAGE_LIMIT = 200;
+const DEFAULT_MAX_MESSAGES = 5000;
+const MAX_RATE_LIMIT_RETRIES = 5;
+const DEFAULT_MAX_THREADS = 100;
+
+export type ThreadRead = {
+  messages: any[];
+  truncated: boolean;
+  // human readable reason, only set when truncated
+  reason?: string;
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Seconds to wait if this error is a Slack rate limit, otherwise null.
+export function retryAfterSeconds(e: any): number | null {
+  if (!e) return null;
+  if (e.code === "slack_webapi_rate_limited_error") {
+    return Number(e.retryAfter) || 1;
+  }
+  if (e.data?.error === "ratelimited" || e.status === 429 || e.statusCode === 429) {
+    const header =
+      e.headers?.["retry-after"] ||
+      e.data?.response_metadata?.retry_after ||
+      e.retryAfter;
+    return Number(header) || 1;
+  }
+  return null;
+}
+
+// Run a Slack Web API call, sleeping and retrying on 429 Retry-After.
+export async function callWithBackoff<T>(
+  fn: () => Promise<T>,
+  maxRetries = MAX_RATE_LIMIT_RETRIES
+): Promise<T> {
+  let attempt = 0;
+  for (;;) {
+    try {
+      return await fn();
+    } catch (e: any) {
+      const wait = retryAfterSeconds(e);
+      if (wait === null || attempt >= maxRetries) throw e;
+      attempt++;
+      console.warn(`slack rate limited, retrying in ${wait}s (attempt ${attempt}/${maxRetries})`);
+      await sleep(wait * 1000);
+    }
+  }
+}
+
+export function maxThreadMessages(): number {
+  const n = Number(process.env.THREAD_MAX_MESSAGES || "");
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : DEFAULT_MAX_MESSAGES;
+}
+
+// Page through every reply in a thread (root message included, oldest first).
+export async function readThread(
+  client: any,
+  channel: string,
+  ts: string,
+  maxMessages = maxThreadMessages()
+): Promise<ThreadRead> {
+  const messages: any[] = [];
+  let cursor: string | undefined = undefined;
+
+  for (;;) {
+    let page: any;
+    try {
+      page = await callWithBackoff(() =>
+        client.conversations.replies({
+          channel,
+          ts,
+          limit: PAGE_LIMIT,
+          ...(cursor ? { cursor } : {})
+        })
+      );
+    } catch (e: any) {
+      // Nothing read yet: let the caller handle it like any other API error.
+      if (!messages.length) throw e;
+      console.error("conversations.replies paging error:", e?.data || e?.message || e);
+      return {
+        messages,
+        truncated: true,
+        reason: `Slack stopped returning replies after ${messages.length} messages (${e?.data?.error || e?.message || "error"})`
+      };
+    }
+
+    for (const m of page?.messages || []) {
+      // Slack repeats the root message at the top of every page.
+      if (messages.length && m.ts === ts) continue;
+      messages.push(m);
+    }
+
+    if (messages.length >= maxMessages) {
+      const more =
+        messages.length > maxMessages ||
+        !!page?.has_more ||
+        !!page?.response_metadata?.next_cursor;
+      if (!more) break;
+      return {
+        messages: messages.slice(0, maxMessages),
+        truncated: true,
+        reason: `only the first ${maxMessages} messages were read`
+      };
+    }
+
+    cursor = page?.response_metadata?.next_cursor || undefined;
+    if (!cursor) break;
+  }
+
+  return { messages, truncated: false };
+}
+
+export function maxReportThreads(): number {
+  const n = Number(process.env.REPORT_MAX_THREADS || "");
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : DEFAULT_MAX_THREADS;
+}
+
+export type ThreadList = {
+  // root ts of every thread started in the range, oldest first
+  roots: string[];
+  truncated: boolean;
+  reason?: string;
+};
+
+// Threads started in a channel between `oldest` and `latest` (epoch seconds):
+// top-level messages with replies or files. Joins, bots and the like are skipped.
+export async function listThreadRoots(
+  client: any,
+  channel: string,
+  oldest: number,
+  latest: number,
+  maxThreads = maxReportThreads()
+): Promise<ThreadList> {
+  const roots: string[] = [];
+  let cursor: string | undefined = undefined;
+
+  for (;;) {
+    const page: any = await callWithBackoff(() =>
+      client.conversations.history({
+        channel,
+        oldest: String(oldest),
+        latest: String(latest),
+        inclusive: true,
+        limit: PAGE_LIMIT,
+        ...(cursor ? { cursor } : {})
+      })
+    );
+
+    for (const m of page?.messages || []) {
+      if (m.bot_id || (m.subtype && m.subtype !== "file_share")) continue;
+      if (!(m.reply_count > 0) && !(m.files || []).length) continue;
+      roots.push(m.ts);
+    }
+
+    cursor = page?.response_metadata?.next_cursor || undefined;
+    if (!cursor || roots.length > maxThreads) break;
+  }
+
+  // history pages come newest first, so a cut keeps the newest threads
+  roots.sort((a, b) => Number(a) - Number(b));
+  if (roots.length > maxThreads) {
+    return {
+      roots: roots.slice(-maxThreads),
+      truncated: true,
+      reason: `only the latest ${maxThreads} threads were included`
+    };
+  }
+  return { roots, truncated: false };
+}
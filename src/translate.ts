@@ -0,0 +1,362 @@
+import crypto from "crypto";
+import fetch from "node-fetch";
+import { openStore } from "./store";
+import { glossaryFor } from "./glossary";
+
+/**
+ * Caption translation behind a small provider interface.
+ *
+ * Providers: DeepL, any LibreTranslate-compatible HTTP server, and an offline
+ * fake that just tags the text (handy for local runs and tests). Each export
+ * picks zero or more target languages; every language renders as its own
+ * labeled block in the Canvas and the PDF.
+ *
+ * Captions go out in batches (DeepL takes many `text` params per request) and
+ * every result is cached on disk by a hash of provider, target language,
+ * glossary and text, so re-exports and Canvas/PDF runs of the same thread only pay
+ * for captions that changed. DeepL requests use the synced trade-term
+ * glossary for their language (see src/glossary.ts).
+ *
+ * Optional ENV:
+ * - TRANSLATION_PROVIDER=deepl|libretranslate|fake   (default: deepl if a key is set)
+ * - DEEPL_API_KEY=...          -> DeepL API key (Free or Pro)
+ * - DEEPL_BASE_URL=...         -> defaults to https://api-free.deepl.com/v2
+ * - LIBRETRANSLATE_URL=...     -> e.g. https://translate.example.com
+ * - LIBRETRANSLATE_API_KEY=...
+ * - TRANSLATION_LANGUAGES=ES-419:Español,PT-BR:Português -> choices in the export modals
+ * - ADD_SPANISH=1              -> pre-select DEEPL_TARGET_LANG (default ES-419) in the modals
+ * - TRANSLATION_CACHE_MAX=20000 -> cached translations kept on disk (least recently used go first)
+ * - TRANSLATION_CACHE_DAYS=180 -> cached translations unused this long are dropped
+ */
+
+export type TranslateOptions = { glossaryId?: string; sourceLang?: string };
+
+export type TranslationProvider = {
+  name: string;
+  // most texts one request may carry
+  maxBatch: number;
+  // same order as `texts`; "" where a text couldn't be translated.
+  // Providers log their own errors.
+  // Throws only when the service stays unavailable (429/5xx/network) after a
+  // few quick retries, so a background export can retry later.
+  translateBatch(texts: string[], targetLang: string, opts?: TranslateOptions): Promise<string[]>;
+};
+
+// quick retries before a provider gives up on an unavailable service
+const RETRIES = 3;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export type Language = { code: string; label: string };
+
+export type Translation = { lang: string; label: string; text: string };
+
+export function deeplProvider(key: string): TranslationProvider {
+  const base = (process.env.DEEPL_BASE_URL?.trim() || "https://api-free.deepl.com/v2").replace(/\/+$/, "");
+  return {
+    name: "deepl",
+    maxBatch: 50,
+    async translateBatch(texts, targetLang, opts) {
+      const empty = texts.map(() => "");
+      const params = new URLSearchParams();
+      for (const text of texts) params.append("text", text);
+      params.append("target_lang", targetLang);
+      params.append("model_type", "quality_optimized");
+      if (opts?.glossaryId) {
+        params.append("glossary_id", opts.glossaryId);
+        params.append("source_lang", (opts.sourceLang || "en").toUpperCase());
+      }
+
+      for (let attempt = 1; ; attempt++) {
+        let resp: any;
+        try {
+          resp = await fetch(`${base}/translate`, {
+            method: "POST",
+            headers: {
+              Authorization: `DeepL-Auth-Key ${key}`,
+              "Content-Type": "application/x-www-form-urlencoded"
+            },
+            body: params.toString()
+          } as any);
+        } catch (e: any) {
+          console.error("deepl exception:", e?.message || e);
+          if (attempt >= RETRIES) throw e;
+          await sleep(1000 * 2 ** (attempt - 1));
+          continue;
+        }
+
+        if (resp.status === 429 || resp.status >= 500) {
+          const body = await resp.text().catch(() => "");
+          console.error("deepl error:", resp.status, resp.statusText, body);
+          if (attempt >= RETRIES) {
+            throw Object.assign(new Error(`DeepL unavailable (${resp.status})`), { status: resp.status });
+          }
+          const hinted = Number(resp.headers.get("retry-after")) * 1000;
+          await sleep(hinted > 0 ? hinted : 1000 * 2 ** (attempt - 1));
+          continue;
+        }
+
+        if (!resp.ok) {
+          const body = await resp.text().catch(() => "");
+          console.error("deepl error:", resp.status, resp.statusText, body);
+          return empty;
+        }
+        try {
+          const data = (await resp.json()) as any;
+          const list = (data?.translations || []) as any[];
+          return texts.map((_, i) => (typeof list[i]?.text === "string" ? list[i].text : ""));
+        } catch (e: any) {
+          console.error("deepl exception:", e?.message || e);
+          return empty;
+        }
+      }
+    }
+  };
+}
+
+// LibreTranslate wants bare ISO codes ("es"), not DeepL's "ES-419".
+function libreCode(lang: string): string {
+  return lang.split("-")[0].toLowerCase();
+}
+
+export function libreTranslateProvider(url: string, apiKey?: string): TranslationProvider {
+  const base = url.replace(/\/+$/, "");
+  return {
+    name: "libretranslate",
+    maxBatch: 25,
+    async translateBatch(texts, targetLang) {
+      const empty = texts.map(() => "");
+      const body = JSON.stringify({
+        // LibreTranslate accepts an array and answers with an array
+        q: texts,
+        source: "auto",
+        target: libreCode(targetLang),
+        format: "text",
+        ...(apiKey ? { api_key: apiKey } : {})
+      });
+
+      for (let attempt = 1; ; attempt++) {
+        let resp: any;
+        try {
+          resp = await fetch(`${base}/translate`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body
+          } as any);
+        } catch (e: any) {
+          console.error("libretranslate exception:", e?.message || e);
+          if (attempt >= RETRIES) throw e;
+          await sleep(1000 * 2 ** (attempt - 1));
+          continue;
+        }
+
+        if (resp.status === 429 || resp.status >= 500) {
+          const text = await resp.text().catch(() => "");
+          console.error("libretranslate error:", resp.status, resp.statusText, text);
+          if (attempt >= RETRIES) {
+            throw Object.assign(new Error(`LibreTranslate unavailable (${resp.status})`), { status: resp.status });
+          }
+          const hinted = Number(resp.headers.get("retry-after")) * 1000;
+          await sleep(hinted > 0 ? hinted : 1000 * 2 ** (attempt - 1));
+          continue;
+        }
+
+        if (!resp.ok) {
+          const text = await resp.text().catch(() => "");
+          console.error("libretranslate error:", resp.status, resp.statusText, text);
+          return empty;
+        }
+        try {
+          const data = (await resp.json()) as any;
+          const list = Array.isArray(data?.translatedText) ? data.translatedText : [];
+          return texts.map((_, i) => (typeof list[i] === "string" ? list[i] : ""));
+        } catch (e: any) {
+          console.error("libretranslate exception:", e?.message || e);
+          return empty;
+        }
+      }
+    }
+  };
+}
+
+// Offline stand-in: no network, deterministic output.
+export function fakeProvider(): TranslationProvider {
+  return {
+    name: "fake",
+    maxBatch: 1000,
+    async translateBatch(texts, targetLang) {
+      return texts.map((text) => `[${targetLang}] ${text}`);
+    }
+  };
+}
+
+let active: TranslationProvider | null | undefined;
+
+// The configured provider, or null when translation isn't set up.
+export function translationProvider(): TranslationProvider | null {
+  if (active !== undefined) return active;
+
+  const choice = (process.env.TRANSLATION_PROVIDER || "").trim().toLowerCase();
+  const deeplKey = process.env.DEEPL_API_KEY?.trim() || "";
+  const libreUrl = process.env.LIBRETRANSLATE_URL?.trim() || "";
+
+  if (choice === "fake") active = fakeProvider();
+  else if (choice === "libretranslate" || (!choice && !deeplKey && libreUrl)) {
+    active = libreUrl ? libreTranslateProvider(libreUrl, process.env.LIBRETRANSLATE_API_KEY?.trim()) : null;
+  } else active = deeplKey ? deeplProvider(deeplKey) : null;
+
+  return active;
+}
+
+// For tests: swap in a provider (e.g. fakeProvider()) without touching ENV.
+export function setTranslationProvider(p: TranslationProvider | null): void {
+  active = p;
+}
+
+export function availableLanguages(): Language[] {
+  const raw =
+    process.env.TRANSLATION_LANGUAGES?.trim() ||
+    `${(process.env.DEEPL_TARGET_LANG || "ES-419").trim()}:Español`;
+  return raw
+    .split(",")
+    .map((pair) => {
+      const [code, ...label] = pair.split(":");
+      return { code: code.trim(), label: label.join(":").trim() || code.trim() };
+    })
+    .filter((l) => l.code);
+}
+
+// Languages pre-selected in the modals (ADD_SPANISH keeps its old meaning).
+export function defaultLanguages(): string[] {
+  if ((process.env.ADD_SPANISH || "") !== "1") return [];
+  return [(process.env.DEEPL_TARGET_LANG || "ES-419").trim()];
+}
+
+export function languageLabel(code: string): string {
+  return availableLanguages().find((l) => l.code === code)?.label || code;
+}
+
+// `at`: last time the translation was made or used
+type CachedTranslation = { text: string; at: string };
+
+const cache = openStore<CachedTranslation>("translations");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function cacheLimit(name: string, fallback: number): number {
+  const n = Number(process.env[name] || "");
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+// Drop entries unused for TRANSLATION_CACHE_DAYS, then the least recently
+// used ones past TRANSLATION_CACHE_MAX.
+function pruneCache(now = Date.now()): void {
+  const maxAge = cacheLimit("TRANSLATION_CACHE_DAYS", 180) * DAY_MS;
+  const maxEntries = cacheLimit("TRANSLATION_CACHE_MAX", 20000);
+  const byAge = cache
+    .entries()
+    .map(([key, v]) => ({ key, at: Date.parse(v.at) || 0 }))
+    .sort((a, b) => b.at - a.at);
+  const drop = byAge.filter((e, i) => i >= maxEntries || now - e.at > maxAge).map((e) => e.key);
+  cache.deleteMany(drop);
+}
+
+// A glossary re-sync gets a new id, so cached results from the old one miss.
+function cacheKey(provider: string, lang: string, glossaryId: string, text: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify([provider, lang, glossaryId, text]))
+    .digest("hex");
+}
+
+// Translate many captions into each requested language.
+// Result[i] holds the translations of texts[i]; failed ones are left out.
+export async function translateCaptions(texts: string[], langs: string[]): Promise<Translation[][]> {
+  const out: Translation[][] = texts.map(() => []);
+  const provider = translationProvider();
+  if (!provider || !langs.length) return out;
+
+  for (const lang of langs) {
+    const label = languageLabel(lang);
+    const glossary = provider.name === "deepl" ? glossaryFor(lang) : undefined;
+    const glossaryId = glossary?.glossaryId || "";
+    const results: string[] = texts.map(() => "");
+
+    // unique, non-empty, not yet cached
+    const pending = new Map<string, number[]>();
+    const fresh: Array<[string, CachedTranslation]> = [];
+    texts.forEach((raw, i) => {
+      const t = (raw || "").trim();
+      if (!t) return;
+      const key = cacheKey(provider.name, lang, glossaryId, t);
+      const hit = cache.get(key);
+      if (!hit) {
+        pending.set(t, [...(pending.get(t) || []), i]);
+        return;
+      }
+      results[i] = hit.text;
+      // mark as used (at most daily, so a re-export doesn't rewrite the file for nothing)
+      if (Date.now() - (Date.parse(hit.at) || 0) > DAY_MS) {
+        fresh.push([key, { text: hit.text, at: new Date().toISOString() }]);
+      }
+    });
+
+    const todo = Array.from(pending.keys());
+    try {
+      for (let start = 0; start < todo.length; start += provider.maxBatch) {
+        const batch = todo.slice(start, start + provider.maxBatch);
+        const translated = await provider.translateBatch(batch, lang, glossary);
+        batch.forEach((t, j) => {
+          const tr = translated[j] || "";
+          if (!tr) return;
+          for (const i of pending.get(t) || []) results[i] = tr;
+          fresh.push([cacheKey(provider.name, lang, glossaryId, t), { text: tr, at: new Date().toISOString() }]);
+        });
+      }
+    } finally {
+      // keep what we got even if a later batch gives up, so a retry is cheaper
+      cache.setMany(fresh);
+    }
+
+    results.forEach((tr, i) => {
+      if (tr) out[i].push({ lang, label, text: tr });
+    });
+  }
+  pruneCache();
+  return out;
+}
+
+// Multi-select for the Canvas/PDF modals; omitted when no provider is configured.
+export function translationBlocks(): any[] {
+  if (!translationProvider()) return [];
+  const options = availableLanguages().map((l) => ({
+    text: { type: "plain_text", text: l.label.slice(0, 75) },
+    value: l.code
+  }));
+  const defaults = defaultLanguages();
+  const initial = options.filter((o) => defaults.includes(o.value));
+
+  return [
+    {
+      type: "input",
+      block_id: "translate_block",
+      optional: true,
+      label: { type: "plain_text", text: "Translate captions into" },
+      element: {
+        type: "multi_static_select",
+        action_id: "translate_action",
+        placeholder: { type: "plain_text", text: "No translation" },
+        options,
+        ...(initial.length ? { initial_options: initial } : {})
+      }
+    }
+  ];
+}
+
+export function languagesFromState(values: any): string[] {
+  return (values?.translate_block?.translate_action?.selected_options || []).map(
+    (o: any) => o.value as string
+  );
+}
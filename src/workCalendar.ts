@@ -0,0 +1,159 @@
+import fs from "fs";
+import path from "path";
+import { addLocalDays, fromLocal, localParts } from "./zonedTime";
+
+/**
+ * Company working calendar for reminders: Monday–Friday, minus holidays,
+ * within working hours, in the requester's timezone.
+ *
+ * Holidays come from config/holidays.json (a list of "YYYY-MM-DD" strings or
+ * { "date", "name" } objects) or from an .ics calendar export, where every
+ * all-day event counts (recurring rules aren't expanded, so export the dates).
+ * The file is re-read on every use, so edits apply to the next reminder.
+ *
+ * Optional ENV:
+ * - HOLIDAYS_PATH=config/holidays.json   (.json or .ics)
+ * - WORKDAY_START=8            -> local hour the working morning starts
+ * - WORKDAY_END=17             -> reminders due at/after this hour move to the next working morning
+ */
+
+type LocalDay = { year: number; month: number; day: number; weekday: number };
+
+function holidaysPath(): string {
+  return path.resolve(process.env.HOLIDAYS_PATH?.trim() || "config/holidays.json");
+}
+
+function hourFromEnv(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isInteger(n) && n >= 0 && n <= 23 ? n : fallback;
+}
+
+export function workdayStart(): number {
+  return hourFromEnv("WORKDAY_START", 8);
+}
+
+export function workdayEnd(): number {
+  return hourFromEnv("WORKDAY_END", 17);
+}
+
+function ymd(d: { year: number; month: number; day: number }): string {
+  return `${d.year}-${String(d.month).padStart(2, "0")}-${String(d.day).padStart(2, "0")}`;
+}
+
+// All-day events from an iCalendar file; DTEND is exclusive, as in the spec.
+function parseIcs(text: string): string[] {
+  // unfold continuation lines (RFC 5545 §3.1)
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const dates: string[] = [];
+  let start = "";
+  let end = "";
+  for (const line of lines) {
+    if (line.startsWith("BEGIN:VEVENT")) start = end = "";
+    else if (/^DTSTART[;:]/.test(line)) start = line.split(":").pop() || "";
+    else if (/^DTEND[;:]/.test(line)) end = line.split(":").pop() || "";
+    else if (line.startsWith("END:VEVENT")) {
+      const m = start.match(/^(\d{4})(\d{2})(\d{2})/);
+      if (!m) continue;
+      let d = { year: Number(m[1]), month: Number(m[2]), day: Number(m[3]) };
+      const e = end.match(/^(\d{4})(\d{2})(\d{2})/);
+      const last = e ? `${e[1]}-${e[2]}-${e[3]}` : "";
+      // multi-day events: every day up to (not including) DTEND, capped at a month
+      for (let i = 0; i < 31; i++) {
+        dates.push(ymd(d));
+        d = addLocalDays(d.year, d.month, d.day, 1);
+        if (!last || ymd(d) >= last) break;
+      }
+    }
+  }
+  return dates;
+}
+
+export function loadHolidays(): Set<string> {
+  const file = holidaysPath();
+  let raw: string;
+  try {
+    raw = fs.readFileSync(file, "utf8");
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") console.error("holidays read error:", e?.message || e);
+    return new Set();
+  }
+
+  if (/\.ics$/i.test(file)) return new Set(parseIcs(raw));
+
+  try {
+    const data = JSON.parse(raw);
+    const list: any[] = Array.isArray(data) ? data : data?.holidays || [];
+    return new Set(
+      list
+        .map((h) => (typeof h === "string" ? h : h?.date))
+        .filter((d): d is string => typeof d === "string" && /^\d{4}-\d{2}-\d{2}$/.test(d))
+    );
+  } catch (e: any) {
+    console.error("holidays parse error:", e?.message || e);
+    return new Set();
+  }
+}
+
+function isWorkingDay(d: LocalDay, holidays: Set<string>): boolean {
+  return d.weekday !== 0 && d.weekday !== 6 && !holidays.has(ymd(d));
+}
+
+function nextWorkingDay(d: LocalDay, holidays: Set<string>): LocalDay {
+  let next = addLocalDays(d.year, d.month, d.day, 1);
+  // a year of holidays in a row would be a broken file; stop looking by then
+  for (let i = 0; i < 366 && !isWorkingDay(next, holidays); i++) {
+    next = addLocalDays(next.year, next.month, next.day, 1);
+  }
+  return next;
+}
+
+// If `when` falls on a weekend/holiday or outside working hours, the next
+// working morning; otherwise `when` itself. `rolled` says whether it moved.
+export function nextWorkingTime(when: Date, tz: string): { at: Date; rolled: boolean } {
+  const holidays = loadHolidays();
+  const local = localParts(when, tz);
+  const startHour = workdayStart();
+
+  if (isWorkingDay(local, holidays)) {
+    if (local.hour < startHour) return { at: fromLocal(tz, local.year, local.month, local.day, startHour), rolled: true };
+    if (local.hour < workdayEnd()) return { at: when, rolled: false };
+  }
+  const d = nextWorkingDay(local, holidays);
+  return { at: fromLocal(tz, d.year, d.month, d.day, startHour), rolled: true };
+}
+
+// Same local time of day, `days` working days later (weekends and holidays
+// skipped). Outside working hours it's that day's working morning instead, so
+// 7 PM Monday + 1 is Tuesday morning rather than 7 PM Tuesday (which would
+// roll on to Wednesday).
+export function addBusinessDays(from: Date, days: number, tz: string): Date {
+  const holidays = loadHolidays();
+  const start = localParts(from, tz);
+  let d: LocalDay = start;
+  for (let i = 0; i < days; i++) d = nextWorkingDay(d, holidays);
+  const working = start.hour >= workdayStart() && start.hour < workdayEnd();
+  return working
+    ? fromLocal(tz, d.year, d.month, d.day, start.hour, start.minute)
+    : fromLocal(tz, d.year, d.month, d.day, workdayStart());
+}
+
+// The last working day of this week (normally Friday) at `hour`; next week's
+// if that has already passed. A Friday holiday makes it Thursday, and so on.
+export function endOfWorkWeek(from: Date, hour: number, tz: string): Date {
+  const holidays = loadHolidays();
+  const now = localParts(from, tz);
+  // Friday of the current week (Sat/Sun look ahead to the coming Friday)
+  let friday = addLocalDays(now.year, now.month, now.day, (5 - now.weekday + 7) % 7);
+
+  for (let week = 0; week < 52; week++) {
+    for (let back = 0; back < 5; back++) {
+      const d = addLocalDays(friday.year, friday.month, friday.day, -back);
+      if (!isWorkingDay(d, holidays)) continue;
+      const at = fromLocal(tz, d.year, d.month, d.day, hour);
+      if (at.getTime() > from.getTime()) return at;
+      break;
+    }
+    friday = addLocalDays(friday.year, friday.month, friday.day, 7);
+  }
+  return nextWorkingTime(from, tz).at;
+}
@@ -0,0 +1,100 @@
+/**
+ * Minimal ZIP writer for export archives.
+ *
+ * Entries are stored, not deflated: the payload is photos that are already
+ * compressed, and storing keeps the originals byte-for-byte. No ZIP64, so an
+ * archive is limited to 65535 entries and 4 GB, far past a Slack upload.
+ * The whole archive is built in memory, so callers keep the total small
+ * (the ZIP export stops at ARCHIVE_MAX_MB).
+ */
+
+export type ZipEntry = {
+  // path inside the archive, "/" separated
+  name: string;
+  data: Buffer;
+  // modification time shown by unzip tools (default: now)
+  date?: Date;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time fields, local time, 2-second resolution, 1980 at the earliest.
+function dosDateTime(d: Date): { time: number; date: number } {
+  const year = Math.max(d.getFullYear(), 1980);
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+  };
+}
+
+export function createZip(entries: ZipEntry[]): Buffer {
+  if (entries.length > 0xffff) throw new Error(`Too many files for one ZIP (${entries.length})`);
+
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const e of entries) {
+    const name = Buffer.from(e.name, "utf8");
+    const crc = crc32(e.data);
+    const { time, date } = dosDateTime(e.date || new Date());
+    // bit 11: file name is UTF-8
+    const flags = 0x0800;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(0, 8); // stored
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(e.data.length, 18);
+    local.writeUInt32LE(e.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4); // version made by
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(flags, 8);
+    header.writeUInt16LE(0, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(date, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(e.data.length, 20);
+    header.writeUInt32LE(e.data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    // extra, comment, disk, internal and external attributes stay 0
+    header.writeUInt32LE(offset, 42);
+
+    parts.push(local, name, e.data);
+    central.push(header, name);
+    offset += local.length + name.length + e.data.length;
+  }
+
+  const centralSize = central.reduce((n, b) => n + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, ...central, end]);
+}
@@ -0,0 +1,118 @@
+/**
+ * Wall-clock math in an IANA timezone ("America/Denver"), DST included.
+ *
+ * Node has no zoned date type, so local fields come from Intl.DateTimeFormat
+ * and local → UTC conversion asks Intl for the zone's offset at that instant
+ * (twice, so times next to a DST switch land on the right side of it).
+ */
+
+export type LocalTime = {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  // 0=Sun … 6=Sat
+  weekday: number;
+};
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(tz: string): Intl.DateTimeFormat {
+  let f = formatters.get(tz);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      hourCycle: "h23",
+      weekday: "short",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit"
+    });
+    formatters.set(tz, f);
+  }
+  return f;
+}
+
+export function isValidTimezone(tz: string): boolean {
+  if (!tz) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function localParts(date: Date, tz: string): LocalTime {
+  const parts: Record<string, string> = {};
+  for (const p of partsFormatter(tz).formatToParts(date)) parts[p.type] = p.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS[parts.weekday] ?? 0
+  };
+}
+
+// Offset of `tz` from UTC at `date`, in ms (PDT → -7h).
+function offsetMs(date: Date, tz: string): number {
+  const p = localParts(date, tz);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The instant a wall clock in `tz` shows this date and time. Times skipped by
+// a spring-forward switch come out an hour later, as a phone clock would.
+export function fromLocal(
+  tz: string,
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const first = guess - offsetMs(new Date(guess), tz);
+  const second = guess - offsetMs(new Date(first), tz);
+  for (const t of [second, first]) {
+    const p = localParts(new Date(t), tz);
+    if (p.day === day && p.hour === hour && p.minute === minute) return new Date(t);
+  }
+  // inside a DST gap: neither candidate shows that time, take the later one
+  return new Date(Math.max(first, second));
+}
+
+// Calendar day arithmetic on a local date (handles month/year rollover).
+export function addLocalDays(
+  year: number,
+  month: number,
+  day: number,
+  days: number
+): { year: number; month: number; day: number; weekday: number } {
+  const d = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(), weekday: d.getUTCDay() };
+}
+
+// "Fri, Oct 24, 4:00 PM PDT"
+export function formatLocal(date: Date, tz: string): string {
+  return date.toLocaleString("en-US", {
+    timeZone: tz,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short"
+  });
+}
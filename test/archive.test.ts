@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { manifestCsv, ManifestRow } from "../src/archive";
+
+function row(overrides: Partial<ManifestRow>): ManifestRow {
+  return {
+    file: "01-01_valve-box.jpg",
+    entry: 1,
+    photo: 1,
+    caption: "Valve box",
+    author: "Dana Ruiz",
+    user_id: "U02CREW",
+    timestamp: "2025-10-19T19:05:00.000Z",
+    local_time: "Oct 19, 2025, 1:05 PM MDT",
+    translations: {},
+    permalink: "",
+    original_name: "IMG_1.JPG",
+    bytes: 2048,
+    ...overrides
+  };
+}
+
+test("manifest.csv cells that a spreadsheet would run as formulas start with '", () => {
+  const csv = manifestCsv([
+    row({ caption: '=HYPERLINK("http://example.com","x")', author: "@crew" }),
+    row({ caption: "+1 more head", author: "-Dana", photo: 2 })
+  ]);
+  const lines = csv.replace(/^\uFEFF/, "").trimEnd().split("\r\n");
+  assert.deepEqual(lines.slice(1), [
+    `01-01_valve-box.jpg,1,1,"'=HYPERLINK(""http://example.com"",""x"")",'@crew,U02CREW,2025-10-19T19:05:00.000Z,"Oct 19, 2025, 1:05 PM MDT",,IMG_1.JPG,2048,`,
+    `01-01_valve-box.jpg,1,2,'+1 more head,'-Dana,U02CREW,2025-10-19T19:05:00.000Z,"Oct 19, 2025, 1:05 PM MDT",,IMG_1.JPG,2048,`
+  ]);
+});
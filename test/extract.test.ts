@@ -0,0 +1,200 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { captionOf, extractGroups, extractRules, ThreadGroup } from "../src/extract";
+
+// Recorded conversations.replies payloads (IDs and names anonymized).
+function replies(name: string): any[] {
+  const file = path.join(__dirname, "fixtures", `replies-${name}.json`);
+  return JSON.parse(fs.readFileSync(file, "utf8")).messages;
+}
+
+const SITE_VISIT_ROOT = "1760900000.000100";
+const FILE_SHARES_ROOT = "1760910000.000100";
+const SELF_BOT = "B0SELF";
+
+function summary(groups: ThreadGroup[]) {
+  return groups.map((g) => ({
+    ts: g.ts,
+    lastTs: g.lastTs,
+    caption: g.caption,
+    images: g.images.map((f) => f.id)
+  }));
+}
+
+beforeEach(() => {
+  for (const name of Object.keys(process.env)) {
+    if (name.startsWith("EXTRACT_")) delete process.env[name];
+  }
+});
+
+test("Canvas and export rules give the same groups for each fixture", () => {
+  for (const [name, root_ts] of [
+    ["site-visit", SITE_VISIT_ROOT],
+    ["file-shares", FILE_SHARES_ROOT]
+  ]) {
+    const opts = { root_ts, selfBotId: SELF_BOT };
+    assert.deepEqual(
+      extractGroups(replies(name), extractRules("canvas"), opts),
+      extractGroups(replies(name), extractRules("export"), opts),
+      name
+    );
+  }
+});
+
+test("by default the root, bots and text-only replies are kept and photo bursts merged", () => {
+  const groups = extractGroups(replies("site-visit"), extractRules("export"), {
+    root_ts: SITE_VISIT_ROOT,
+    selfBotId: SELF_BOT
+  });
+  assert.deepEqual(summary(groups), [
+    {
+      ts: SITE_VISIT_ROOT,
+      lastTs: SITE_VISIT_ROOT,
+      caption: "Site visit: 1420 Alder St backyard",
+      images: ["F01ROOT0001"]
+    },
+    {
+      ts: "1760900100.000300",
+      lastTs: "1760900220.000500",
+      caption: "Backflow preventer before the test",
+      images: ["F02BURST001", "F02BURST002", "F02BURST003"]
+    },
+    {
+      ts: "1760900400.000600",
+      lastTs: "1760900400.000600",
+      caption: "Looks good, pressure test passed at 82 psi",
+      images: []
+    },
+    {
+      ts: "1760900500.000700",
+      lastTs: "1760900500.000700",
+      caption: "Rain expected after 3 PM",
+      images: ["F03RADAR01"]
+    },
+    // 28 minutes after the first burst: a new entry, which takes the caption
+    // of the photo that follows it
+    {
+      ts: "1760901900.000900",
+      lastTs: "1760901960.001000",
+      caption: "Valve box after cleanup",
+      images: ["F02LATER001", "F02LATER002"]
+    }
+  ]);
+  const bot = groups.find((g) => g.ts === "1760900500.000700")!;
+  assert.equal(bot.user, "");
+  assert.equal(bot.botName, "Weather");
+});
+
+test("the root and bots can be left out, one entry per photo message", () => {
+  const groups = extractGroups(
+    replies("site-visit"),
+    extractRules("canvas", { includeRoot: false, includeBots: false, includeTextOnly: false, mergePhotos: false }),
+    { root_ts: SITE_VISIT_ROOT, selfBotId: SELF_BOT }
+  );
+  assert.deepEqual(
+    groups.map((g) => g.ts),
+    ["1760900100.000300", "1760900160.000400", "1760900220.000500", "1760901900.000900", "1760901960.001000"]
+  );
+});
+
+test("our own status posts stay out even when bots are included", () => {
+  const groups = extractGroups(replies("site-visit"), extractRules("export", { includeBots: true }), {
+    root_ts: SITE_VISIT_ROOT,
+    selfBotId: SELF_BOT
+  });
+  assert.ok(!groups.some((g) => g.ts === "1760900010.000200"));
+  assert.ok(groups.some((g) => g.ts === "1760900500.000700"));
+});
+
+test("the merge window and merge switch decide what counts as one burst", () => {
+  const messages = replies("site-visit");
+  const opts = { root_ts: SITE_VISIT_ROOT, selfBotId: SELF_BOT, skipTs: [SITE_VISIT_ROOT] };
+
+  // the burst's photos are just over a minute apart
+  const tight = extractGroups(messages, extractRules("export", { mergeWindowSec: 61 }), opts);
+  assert.equal(tight[0].images.length, 3);
+
+  const tighter = extractGroups(messages, extractRules("export", { mergeWindowSec: 60 }), opts);
+  assert.deepEqual(
+    tighter.slice(0, 3).map((g) => g.images.length),
+    [1, 1, 1]
+  );
+
+  // an hour: the later pair joins nothing, because a text-only reply sits in between
+  const wide = extractGroups(messages, extractRules("export", { mergeWindowSec: 3600 }), opts);
+  assert.equal(wide.length, 4);
+
+  const off = extractGroups(messages, extractRules("export", { mergePhotos: false }), opts);
+  assert.equal(off.length, 7);
+});
+
+test("text-only replies can be left out", () => {
+  const groups = extractGroups(replies("site-visit"), extractRules("export", { includeTextOnly: false }), {
+    root_ts: SITE_VISIT_ROOT,
+    selfBotId: SELF_BOT
+  });
+  assert.ok(groups.every((g) => g.images.length > 0));
+});
+
+test("file-only shares sort by type and skip deleted files", () => {
+  const groups = extractGroups(replies("file-shares"), extractRules("export"), { root_ts: FILE_SHARES_ROOT });
+  assert.deepEqual(
+    groups.map((g) => [g.caption, g.images.length, g.videos.length, g.pdfs.length, g.others.length]),
+    [
+      ["Paperwork for the Birch Ln job", 0, 0, 0, 0],
+      ["Signed irrigation permit", 0, 0, 1, 0],
+      ["Site plan, revision 3", 0, 0, 0, 1],
+      ["", 0, 1, 0, 0],
+      ["All docs are in, thanks!", 0, 0, 0, 0]
+    ]
+  );
+});
+
+test("captions fall back from text to the share comment to a real file title", () => {
+  const [, permit, plan, video] = replies("file-shares");
+  assert.equal(captionOf(permit), "Signed irrigation permit");
+  assert.equal(captionOf(plan), "Site plan, revision 3");
+  // made-up titles ("PXL_….mp4", "Image from iOS", the file name) aren't captions
+  assert.equal(captionOf(video), "");
+  assert.equal(captionOf(replies("site-visit")[4]), "");
+  assert.equal(captionOf({ text: "  Trench depth 18in  ", files: [{ title: "IMG_1.JPG" }] }), "Trench depth 18in");
+});
+
+test("afterTs, skipTs and filters narrow the messages", () => {
+  const messages = replies("site-visit");
+  const rules = extractRules("canvas");
+
+  const after = extractGroups(messages, rules, { root_ts: SITE_VISIT_ROOT, afterTs: "1760900500.000700" });
+  assert.deepEqual(
+    after.map((g) => g.ts),
+    ["1760901900.000900"]
+  );
+
+  const skipped = extractGroups(messages, rules, { root_ts: SITE_VISIT_ROOT, skipTs: ["1760900000.000100"] });
+  assert.ok(!skipped.some((g) => g.ts === SITE_VISIT_ROOT));
+
+  const byUser = extractGroups(messages, rules, {
+    root_ts: SITE_VISIT_ROOT,
+    filters: { reactions: [], users: ["U01FOREMAN"], from: 0, to: 0, imagesOnly: false }
+  });
+  assert.deepEqual(
+    byUser.map((g) => g.ts),
+    [SITE_VISIT_ROOT, "1760900400.000600"]
+  );
+});
+
+test("EXTRACT_* variables override the defaults of every output", () => {
+  process.env.EXTRACT_INCLUDE_ROOT = "0";
+  process.env.EXTRACT_MERGE_PHOTOS = "0";
+  process.env.EXTRACT_MERGE_WINDOW_MIN = "2";
+  for (const target of ["canvas", "export"] as const) {
+    const rules = extractRules(target);
+    assert.equal(rules.includeRoot, false);
+    assert.equal(rules.includeBots, true);
+    assert.equal(rules.mergePhotos, false);
+    assert.equal(rules.mergeWindowSec, 120);
+  }
+  assert.equal(extractRules("canvas", { includeRoot: true }).includeRoot, true);
+});
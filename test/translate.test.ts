@@ -0,0 +1,78 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// The cache is a JSON store under DATA_DIR, opened when the module loads.
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "collate-translate-"));
+process.env.DATA_DIR = dataDir;
+process.env.TRANSLATION_LANGUAGES = "ES-419:Español,PT-BR:Português";
+
+let translate: typeof import("../src/translate");
+
+before(async () => {
+  translate = await import("../src/translate");
+});
+
+after(() => {
+  translate.setTranslationProvider(null);
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+// The offline fake, with a small batch size and a log of every request.
+function countingFake(maxBatch: number) {
+  const fake = translate.fakeProvider();
+  const calls: Array<{ lang: string; texts: string[] }> = [];
+  translate.setTranslationProvider({
+    ...fake,
+    maxBatch,
+    async translateBatch(texts, lang, opts) {
+      calls.push({ lang, texts });
+      return fake.translateBatch(texts, lang, opts);
+    }
+  });
+  return calls;
+}
+
+test("every language comes back as its own labeled block, in the order asked", async () => {
+  countingFake(10);
+  const out = await translate.translateCaptions(["Trench depth 18in", ""], ["ES-419", "PT-BR"]);
+  assert.deepEqual(out, [
+    [
+      { lang: "ES-419", label: "Español", text: "[ES-419] Trench depth 18in" },
+      { lang: "PT-BR", label: "Português", text: "[PT-BR] Trench depth 18in" }
+    ],
+    // empty captions aren't sent
+    []
+  ]);
+});
+
+test("captions go out one request per batch, and a second run only hits the cache", async () => {
+  const calls = countingFake(2);
+  const texts = ["Valve box", "Backflow preventer", "Valve box", "Drip line", "Sod edge", "Mainline repair"];
+
+  const first = await translate.translateCaptions(texts, ["ES-419", "PT-BR"]);
+  // five distinct captions in batches of two: three requests per language
+  assert.deepEqual(
+    calls.map((c) => [c.lang, c.texts.length]),
+    [
+      ["ES-419", 2],
+      ["ES-419", 2],
+      ["ES-419", 1],
+      ["PT-BR", 2],
+      ["PT-BR", 2],
+      ["PT-BR", 1]
+    ]
+  );
+  assert.equal(first[2][0].text, "[ES-419] Valve box");
+
+  calls.length = 0;
+  const second = await translate.translateCaptions(texts, ["ES-419", "PT-BR"]);
+  assert.equal(calls.length, 0);
+  assert.deepEqual(second, first);
+
+  // only the new caption is sent
+  await translate.translateCaptions([...texts, "Zone 4 head"], ["ES-419"]);
+  assert.deepEqual(calls, [{ lang: "ES-419", texts: ["Zone 4 head"] }]);
+});